@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "checkoutId" TEXT;
+
+-- CreateTable
+CREATE TABLE "checkouts" (
+    "id" TEXT NOT NULL,
+    "checkoutNumber" TEXT NOT NULL,
+    "paymentMethod" "PaymentMethod" NOT NULL,
+    "total" DECIMAL(10,2) NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "checkouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkouts_checkoutNumber_key" ON "checkouts"("checkoutNumber");
+
+-- AddForeignKey
+ALTER TABLE "checkouts" ADD CONSTRAINT "checkouts_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_checkoutId_fkey" FOREIGN KEY ("checkoutId") REFERENCES "checkouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
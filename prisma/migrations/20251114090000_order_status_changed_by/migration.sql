@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "order_status_history" ADD COLUMN     "changedById" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
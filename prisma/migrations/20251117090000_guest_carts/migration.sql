@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "cart_items" ADD COLUMN     "guestCartId" TEXT,
+ALTER COLUMN "userId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "guest_carts" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "guest_carts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guest_carts_token_key" ON "guest_carts"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_items_guestCartId_productId_key" ON "cart_items"("guestCartId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_guestCartId_fkey" FOREIGN KEY ("guestCartId") REFERENCES "guest_carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN     "isVerifiedPurchase" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "orderId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
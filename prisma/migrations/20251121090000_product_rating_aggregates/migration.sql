@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "avgRating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "reviewCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingCounts" INTEGER[] DEFAULT ARRAY[0, 0, 0, 0, 0]::INTEGER[];
+
+-- CreateIndex
+CREATE INDEX "products_avgRating_idx" ON "products"("avgRating");
+
+-- Backfill aggregates from existing reviews
+UPDATE "products" AS p
+SET "reviewCount" = r."reviewCount",
+    "avgRating" = r."avgRating",
+    "ratingCounts" = r."ratingCounts"
+FROM (
+    SELECT "productId",
+           COUNT(*)::INTEGER AS "reviewCount",
+           ROUND(AVG("rating")::NUMERIC, 2)::DOUBLE PRECISION AS "avgRating",
+           ARRAY[
+               COUNT(*) FILTER (WHERE "rating" = 1),
+               COUNT(*) FILTER (WHERE "rating" = 2),
+               COUNT(*) FILTER (WHERE "rating" = 3),
+               COUNT(*) FILTER (WHERE "rating" = 4),
+               COUNT(*) FILTER (WHERE "rating" = 5)
+           ]::INTEGER[] AS "ratingCounts"
+    FROM "reviews"
+    GROUP BY "productId"
+) AS r
+WHERE p."id" = r."productId";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "statusReason" TEXT,
+ADD COLUMN     "statusChangedAt" TIMESTAMP(3);
@@ -0,0 +1,113 @@
+-- CreateTable
+CREATE TABLE "stores" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "phone" TEXT,
+    "address" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "store_invitations" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "sellerRole" "SellerRole" NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "store_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "storeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "storeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "storeId" TEXT;
+
+-- Every existing seller, and any other account that owns products or orders (e.g. admins), becomes the only member of their own store
+INSERT INTO "stores" ("id", "name", "slug", "phone", "address", "createdAt", "updatedAt")
+SELECT
+    'store_' || "id",
+    COALESCE("businessName", "name"),
+    TRIM(BOTH '-' FROM LOWER(REGEXP_REPLACE(COALESCE("businessName", "name"), '[^a-zA-Z0-9]+', '-', 'g'))) || '-' || RIGHT("id", 6),
+    "businessPhone",
+    "businessAddress",
+    "createdAt",
+    CURRENT_TIMESTAMP
+FROM "users"
+WHERE "role" = 'SELLER'
+    OR "id" IN (SELECT "sellerId" FROM "products")
+    OR "id" IN (SELECT "sellerId" FROM "orders");
+
+UPDATE "users" SET "storeId" = "stores"."id"
+FROM "stores"
+WHERE "stores"."id" = 'store_' || "users"."id";
+
+UPDATE "products" SET "storeId" = 'store_' || "sellerId";
+
+UPDATE "orders" SET "storeId" = 'store_' || "sellerId";
+
+-- Fail with a readable message rather than a NOT NULL violation if any row was left without a store
+DO $$
+DECLARE
+    orphan_products INTEGER;
+    orphan_orders INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO orphan_products FROM "products" WHERE "storeId" NOT IN (SELECT "id" FROM "stores");
+    SELECT COUNT(*) INTO orphan_orders FROM "orders" WHERE "storeId" NOT IN (SELECT "id" FROM "stores");
+
+    IF orphan_products > 0 OR orphan_orders > 0 THEN
+        RAISE EXCEPTION 'Cannot make storeId required: % products and % orders were not assigned a store', orphan_products, orphan_orders;
+    END IF;
+END $$;
+
+-- AlterTable
+ALTER TABLE "products" ALTER COLUMN "storeId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "orders" ALTER COLUMN "storeId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stores_slug_key" ON "stores"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "store_invitations_tokenHash_key" ON "store_invitations"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "store_invitations_storeId_idx" ON "store_invitations"("storeId");
+
+-- CreateIndex
+CREATE INDEX "store_invitations_email_idx" ON "store_invitations"("email");
+
+-- CreateIndex
+CREATE INDEX "products_storeId_idx" ON "products"("storeId");
+
+-- CreateIndex
+CREATE INDEX "orders_storeId_idx" ON "orders"("storeId");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "store_invitations" ADD CONSTRAINT "store_invitations_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "store_invitations" ADD CONSTRAINT "store_invitations_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "cod_collections" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "courierName" TEXT NOT NULL,
+    "reference" TEXT,
+    "collectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recordedById" TEXT,
+    "remittedAt" TIMESTAMP(3),
+    "remittanceReference" TEXT,
+    "remittedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cod_collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cod_collections_orderId_key" ON "cod_collections"("orderId");
+
+-- CreateIndex
+CREATE INDEX "cod_collections_storeId_collectedAt_idx" ON "cod_collections"("storeId", "collectedAt");
+
+-- CreateIndex
+CREATE INDEX "cod_collections_storeId_courierName_idx" ON "cod_collections"("storeId", "courierName");
+
+-- AddForeignKey
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_remittedById_fkey" FOREIGN KEY ("remittedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
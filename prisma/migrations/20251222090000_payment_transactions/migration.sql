@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "payment_transactions" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "provider" "PaymentMethod" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'BDT',
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "providerPaymentId" TEXT,
+    "providerTransactionId" TEXT,
+    "providerStatus" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_transactions_orderId_idx" ON "payment_transactions"("orderId");
+
+-- CreateIndex
+CREATE INDEX "payment_transactions_provider_providerPaymentId_idx" ON "payment_transactions"("provider", "providerPaymentId");
+
+-- AddForeignKey
+ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing bKash attempts become transactions; refunds are tracked separately, so refunded orders were captured
+INSERT INTO "payment_transactions" ("id", "orderId", "provider", "amount", "status", "providerPaymentId", "providerTransactionId", "providerStatus", "createdAt", "updatedAt")
+SELECT
+    'bkash_' || "id",
+    "id",
+    'BKASH',
+    "total",
+    CASE WHEN "paymentStatus" IN ('REFUNDED', 'PARTIALLY_REFUNDED') THEN 'COMPLETED'::"PaymentStatus" ELSE "paymentStatus" END,
+    "paymentDetails"->>'paymentID',
+    "bkashTrxId",
+    "paymentDetails"->>'transactionStatus',
+    "createdAt",
+    CURRENT_TIMESTAMP
+FROM "orders"
+WHERE "paymentMethod" = 'BKASH' AND "paymentDetails"->>'paymentID' IS NOT NULL;
+
+-- Cash already collected by couriers
+INSERT INTO "payment_transactions" ("id", "orderId", "provider", "amount", "status", "providerTransactionId", "providerStatus", "createdAt", "updatedAt")
+SELECT
+    'cod_' || "orderId",
+    "orderId",
+    'CASH_ON_DELIVERY',
+    "amount",
+    'COMPLETED',
+    "reference",
+    'COLLECTED',
+    "collectedAt",
+    CURRENT_TIMESTAMP
+FROM "cod_collections";
+
+-- AlterTable
+ALTER TABLE "orders" DROP COLUMN "bkashTrxId",
+DROP COLUMN "paymentDetails";
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "PaymentTransactionStatus" AS ENUM ('INITIATED', 'AUTHORIZED', 'CAPTURED', 'FAILED', 'REFUNDED');
+
+-- AlterTable
+ALTER TABLE "payment_transactions" ALTER COLUMN "status" DROP DEFAULT;
+
+ALTER TABLE "payment_transactions" ALTER COLUMN "status" TYPE "PaymentTransactionStatus" USING (
+    CASE "status"::text
+        WHEN 'PENDING' THEN 'INITIATED'
+        WHEN 'COMPLETED' THEN 'CAPTURED'
+        WHEN 'PARTIALLY_REFUNDED' THEN 'CAPTURED'
+        ELSE "status"::text
+    END
+)::"PaymentTransactionStatus";
+
+ALTER TABLE "payment_transactions" ALTER COLUMN "status" SET DEFAULT 'INITIATED';
+
+-- Fully refunded orders have nothing left captured
+UPDATE "payment_transactions" t
+SET "status" = 'REFUNDED'
+FROM "orders" o
+WHERE t."orderId" = o."id" AND t."status" = 'CAPTURED' AND o."paymentStatus" = 'REFUNDED';
+
+-- Courier receipt numbers are not unique across couriers, so they move out of the provider reference
+UPDATE "payment_transactions"
+SET "details" = COALESCE("details", '{}'::jsonb) || jsonb_build_object('reference', "providerTransactionId"),
+    "providerTransactionId" = NULL
+WHERE "provider" = 'CASH_ON_DELIVERY' AND "providerTransactionId" IS NOT NULL;
+
+ALTER TABLE "payment_transactions" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- DropIndex
+DROP INDEX "payment_transactions_provider_providerPaymentId_idx";
+
+-- CreateTable
+CREATE TABLE "payment_transaction_events" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "fromStatus" "PaymentTransactionStatus",
+    "toStatus" "PaymentTransactionStatus" NOT NULL,
+    "source" TEXT NOT NULL,
+    "providerStatus" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_transaction_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_transactions_idempotencyKey_key" ON "payment_transactions"("idempotencyKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_transactions_provider_providerPaymentId_key" ON "payment_transactions"("provider", "providerPaymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_transactions_provider_providerTransactionId_key" ON "payment_transactions"("provider", "providerTransactionId");
+
+-- CreateIndex
+CREATE INDEX "payment_transaction_events_transactionId_idx" ON "payment_transaction_events"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "payment_transaction_events" ADD CONSTRAINT "payment_transaction_events_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "payment_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "payment_transactions" ADD COLUMN     "checkoutId" TEXT;
+
+-- DropIndex
+DROP INDEX "payment_transactions_provider_providerPaymentId_key";
+
+-- DropIndex
+DROP INDEX "payment_transactions_provider_providerTransactionId_key";
+
+-- CreateIndex
+CREATE INDEX "payment_transactions_checkoutId_idx" ON "payment_transactions"("checkoutId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_transactions_provider_providerPaymentId_orderId_key" ON "payment_transactions"("provider", "providerPaymentId", "orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_transactions_provider_providerTransactionId_orderId_key" ON "payment_transactions"("provider", "providerTransactionId", "orderId");
+
+-- AddForeignKey
+ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_checkoutId_fkey" FOREIGN KEY ("checkoutId") REFERENCES "checkouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -9,15 +9,29 @@ async function main() {
   // Clean existing data
   console.log('🧹 Cleaning existing data...');
   await prisma.orderStatusHistory.deleteMany();
+  await prisma.codCollection.deleteMany();
+  await prisma.refundItem.deleteMany();
+  await prisma.refund.deleteMany();
+  await prisma.paymentTransaction.deleteMany();
   await prisma.orderItem.deleteMany();
   await prisma.order.deleteMany();
+  await prisma.checkout.deleteMany();
   await prisma.cartItem.deleteMany();
+  await prisma.guestCart.deleteMany();
   await prisma.review.deleteMany();
   await prisma.product.deleteMany();
   await prisma.category.deleteMany();
   await prisma.notification.deleteMany();
   await prisma.refreshToken.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.passwordResetToken.deleteMany();
+  await prisma.emailVerificationToken.deleteMany();
+  await prisma.twoFactorRecoveryCode.deleteMany();
+  await prisma.loginAttempt.deleteMany();
+  await prisma.storeInvitation.deleteMany();
   await prisma.user.deleteMany();
+  await prisma.store.deleteMany();
+  await prisma.customRole.deleteMany();
   await prisma.dailyStats.deleteMany();
 
   // Create admin user
@@ -31,6 +45,27 @@ async function main() {
       phone: '+8801700000000',
       role: UserRole.ADMIN,
       status: UserStatus.ACTIVE,
+      emailVerified: true,
+    },
+  });
+
+  // Create stores
+  console.log('🏬 Creating stores...');
+  const techStore = await prisma.store.create({
+    data: {
+      name: 'Tech Store Bangladesh',
+      slug: 'tech-store-bangladesh',
+      phone: '+8801700000001',
+      address: 'Dhanmondi, Dhaka-1205, Bangladesh',
+    },
+  });
+
+  const fashionStore = await prisma.store.create({
+    data: {
+      name: 'Fashion Hub BD',
+      slug: 'fashion-hub-bd',
+      phone: '+8801700000004',
+      address: 'Gulshan, Dhaka-1212, Bangladesh',
     },
   });
 
@@ -46,9 +81,11 @@ async function main() {
       role: UserRole.SELLER,
       sellerRole: SellerRole.MANAGER,
       status: UserStatus.ACTIVE,
+      emailVerified: true,
       businessName: 'Tech Store Bangladesh',
       businessPhone: '+8801700000001',
       businessAddress: 'Dhanmondi, Dhaka-1205, Bangladesh',
+      storeId: techStore.id,
     },
   });
 
@@ -62,9 +99,11 @@ async function main() {
       role: UserRole.SELLER,
       sellerRole: SellerRole.ACCOUNTANT,
       status: UserStatus.ACTIVE,
+      emailVerified: true,
       businessName: 'Tech Store Bangladesh',
       businessPhone: '+8801700000001',
       businessAddress: 'Dhanmondi, Dhaka-1205, Bangladesh',
+      storeId: techStore.id,
     },
   });
 
@@ -78,9 +117,11 @@ async function main() {
       role: UserRole.SELLER,
       sellerRole: SellerRole.INVENTORY_STAFF,
       status: UserStatus.ACTIVE,
+      emailVerified: true,
       businessName: 'Tech Store Bangladesh',
       businessPhone: '+8801700000001',
       businessAddress: 'Dhanmondi, Dhaka-1205, Bangladesh',
+      storeId: techStore.id,
     },
   });
 
@@ -95,9 +136,11 @@ async function main() {
       role: UserRole.SELLER,
       sellerRole: SellerRole.MANAGER,
       status: UserStatus.ACTIVE,
+      emailVerified: true,
       businessName: 'Fashion Hub BD',
       businessPhone: '+8801700000004',
       businessAddress: 'Gulshan, Dhaka-1212, Bangladesh',
+      storeId: fashionStore.id,
     },
   });
 
@@ -114,6 +157,7 @@ async function main() {
         phone: `+880170000000${i + 10}`,
         role: UserRole.BUYER,
         status: UserStatus.ACTIVE,
+        emailVerified: true,
       },
     });
     buyers.push(buyer);
@@ -179,6 +223,7 @@ async function main() {
       sku: 'IP15PM-256-NAT',
       categoryId: categories[0].id,
       sellerId: sellerManager.id,
+      storeId: techStore.id,
       images: [
         'https://res.cloudinary.com/demo/image/upload/v1640835545/sample.jpg',
         'https://res.cloudinary.com/demo/image/upload/v1640835546/sample2.jpg'
@@ -195,6 +240,7 @@ async function main() {
       sku: 'SGS24U-512-BLK',
       categoryId: categories[0].id,
       sellerId: sellerManager.id,
+      storeId: techStore.id,
       images: [
         'https://res.cloudinary.com/demo/image/upload/v1640835545/sample.jpg',
         'https://res.cloudinary.com/demo/image/upload/v1640835546/sample2.jpg'
@@ -209,6 +255,7 @@ async function main() {
       sku: 'MBP14-M3-16-512',
       categoryId: categories[0].id,
       sellerId: sellerManager.id,
+      storeId: techStore.id,
       images: [
         'https://res.cloudinary.com/demo/image/upload/v1640835545/sample.jpg'
       ],
@@ -222,6 +269,7 @@ async function main() {
       sku: 'SONY-WH1000XM5-BLK',
       categoryId: categories[0].id,
       sellerId: sellerManager.id,
+      storeId: techStore.id,
       images: [
         'https://res.cloudinary.com/demo/image/upload/v1640835545/sample.jpg'
       ],
@@ -240,6 +288,7 @@ async function main() {
       sku: 'FH-TSHIRT-COT-001',
       categoryId: categories[1].id,
       sellerId: seller2.id,
+      storeId: fashionStore.id,
       images: [
         'https://res.cloudinary.com/demo/image/upload/v1640835545/sample.jpg'
       ],
@@ -253,6 +302,7 @@ async function main() {
       sku: 'FH-JACKET-DENIM-001',
       categoryId: categories[1].id,
       sellerId: seller2.id,
+      storeId: fashionStore.id,
       images: [
         'https://res.cloudinary.com/demo/image/upload/v1640835545/sample.jpg'
       ],
@@ -266,6 +316,7 @@ async function main() {
       sku: 'FH-SHOES-RUN-001',
       categoryId: categories[1].id,
       sellerId: seller2.id,
+      storeId: fashionStore.id,
       images: [
         'https://res.cloudinary.com/demo/image/upload/v1640835545/sample.jpg'
       ],
@@ -299,6 +350,32 @@ async function main() {
     }
   }
 
+  // Sync product rating aggregates with the seeded reviews
+  for (const product of products) {
+    const ratingGroups = await prisma.review.groupBy({
+      by: ['rating'],
+      where: { productId: product.id },
+      _count: { _all: true },
+    });
+
+    const ratingCounts = [0, 0, 0, 0, 0];
+    ratingGroups.forEach((group) => {
+      ratingCounts[group.rating - 1] = group._count._all;
+    });
+
+    const reviewCount = ratingCounts.reduce((sum, count) => sum + count, 0);
+    const ratingTotal = ratingCounts.reduce((sum, count, index) => sum + count * (index + 1), 0);
+
+    await prisma.product.update({
+      where: { id: product.id },
+      data: {
+        reviewCount,
+        ratingCounts,
+        avgRating: reviewCount > 0 ? Math.round((ratingTotal / reviewCount) * 100) / 100 : 0,
+      },
+    });
+  }
+
   // Create some sample orders
   console.log('📋 Creating sample orders...');
   for (let i = 0; i < 3; i++) {
@@ -331,6 +408,7 @@ async function main() {
         },
         buyerId: buyer.id,
         sellerId: seller.id,
+        storeId: product.storeId,
         items: {
           create: [
             {
@@ -378,6 +456,31 @@ async function main() {
           notes: 'Order delivered successfully',
         },
       });
+
+      // The courier collected cash for the delivered cash-on-delivery order
+      await prisma.codCollection.create({
+        data: {
+          orderId: order.id,
+          storeId: order.storeId,
+          amount: total,
+          courierName: 'Pathao Courier',
+          recordedById: seller.id,
+        },
+      });
+
+      await prisma.paymentTransaction.create({
+        data: {
+          orderId: order.id,
+          provider: 'CASH_ON_DELIVERY',
+          amount: total,
+          status: 'CAPTURED',
+          providerStatus: 'COLLECTED',
+          details: { courierName: 'Pathao Courier' },
+          events: {
+            create: { toStatus: 'CAPTURED', source: 'collection', providerStatus: 'COLLECTED' },
+          },
+        },
+      });
     }
   }
 
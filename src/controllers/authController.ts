@@ -1,16 +1,92 @@
 import { Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { AuthenticatedRequest, ApiResponse, JwtPayload } from '../types';
+import { AuthenticatedRequest, ApiResponse, JwtPayload, UserRole, SellerRole } from '../types';
 import { 
-  JWTUtil, 
+  JWTUtil,
   PasswordUtil, 
   ResponseUtil, 
   ErrorUtil, 
-  ValidationUtil 
+  ValidationUtil,
+  TokenUtil
 } from '../utils';
+import emailService from '../services/emailService';
+import {
+  createSession,
+  rotateRefreshToken,
+  findSessionIdByRefreshToken,
+  revokeAllSessions
+} from '../services/sessionService';
+import { isTwoFactorRequired, verifySecondFactor } from '../services/twoFactorService';
+import {
+  recordLoginAttempt,
+  assertNotLocked,
+  registerFailedLogin,
+  registerSuccessfulLogin
+} from '../services/loginProtectionService';
+import { getGuestCartToken, mergeGuestCart, GUEST_CART_COOKIE } from '../services/cartService';
+import { generateStoreSlug } from '../services/storeService';
 
 const prisma = new PrismaClient();
 
+// Password reset links are valid for one hour (matches the email copy)
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// Verification links are valid for 24 hours (matches the email copy)
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Replace any outstanding verification link and email a new one
+const sendEmailVerification = async (user: { id: string; email: string; name: string }) => {
+  const verificationToken = TokenUtil.generateToken();
+
+  await prisma.$transaction([
+    prisma.emailVerificationToken.deleteMany({
+      where: { userId: user.id },
+    }),
+    prisma.emailVerificationToken.create({
+      data: {
+        tokenHash: TokenUtil.hashToken(verificationToken),
+        userId: user.id,
+        expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+      },
+    }),
+  ]);
+
+  await emailService.sendVerificationEmail(user.email, verificationToken, user.name);
+};
+
+// Start a session for this device, carry over the guest cart and set auth cookies
+const completeLogin = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  user: { id: string; email: string; role: UserRole; sellerRole: SellerRole | null }
+) => {
+  const { accessToken, refreshToken } = await createSession(user, req);
+
+  // Carry over anything added to the cart before signing in
+  const guestCartToken = getGuestCartToken(req);
+  if (guestCartToken && user.role === 'BUYER') {
+    await mergeGuestCart(guestCartToken, user.id);
+    res.clearCookie(GUEST_CART_COOKIE);
+  }
+
+  // Set cookies
+  res.cookie('accessToken', accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 15 * 60 * 1000, // 15 minutes
+  });
+
+  res.cookie('refreshToken', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+  });
+
+  return { accessToken, refreshToken };
+};
+
 export class AuthController {
   // Register new user
   async register(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
@@ -21,7 +97,6 @@ export class AuthController {
         name,
         phone,
         role = 'BUYER',
-        sellerRole,
         businessName,
         businessPhone,
         businessAddress,
@@ -51,12 +126,23 @@ export class AuthController {
       // Add optional fields
       if (phone) userData.phone = phone;
 
-      // Add seller-specific fields
+      // A seller signing up opens a new store and manages it; staff join through invitations
       if (role === 'SELLER') {
-        userData.sellerRole = sellerRole;
-        userData.businessName = ValidationUtil.sanitizeString(businessName);
+        const storeName = ValidationUtil.sanitizeString(businessName);
+        const storeAddress = ValidationUtil.sanitizeString(businessAddress);
+
+        userData.sellerRole = 'MANAGER';
+        userData.businessName = storeName;
         userData.businessPhone = businessPhone;
-        userData.businessAddress = ValidationUtil.sanitizeString(businessAddress);
+        userData.businessAddress = storeAddress;
+        userData.store = {
+          create: {
+            name: storeName,
+            slug: await generateStoreSlug(storeName),
+            phone: businessPhone,
+            address: storeAddress,
+          },
+        };
       }
 
       const user = await prisma.user.create({
@@ -68,45 +154,24 @@ export class AuthController {
           phone: true,
           role: true,
           sellerRole: true,
+          storeId: true,
           businessName: true,
           businessPhone: true,
           businessAddress: true,
           status: true,
+          emailVerified: true,
           createdAt: true,
         },
       });
 
-      // Generate tokens
-      const { accessToken, refreshToken } = JWTUtil.generateTokenPair({
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-        sellerRole: user.sellerRole,
-      });
+      const { accessToken, refreshToken } = await completeLogin(req, res, user);
 
-      // Save refresh token to database
-      await prisma.refreshToken.create({
-        data: {
-          token: refreshToken,
-          userId: user.id,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        },
-      });
-
-      // Set cookies
-      res.cookie('accessToken', accessToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 15 * 60 * 1000, // 15 minutes
-      });
-
-      res.cookie('refreshToken', refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      });
+      // Best effort like every other email: the account exists, and the link can be resent
+      try {
+        await sendEmailVerification(user);
+      } catch (error) {
+        console.error('Sending the verification email failed:', error);
+      }
 
       res.status(201).json(
         ResponseUtil.success('Account created successfully', {
@@ -138,71 +203,68 @@ export class AuthController {
           phone: true,
           role: true,
           sellerRole: true,
+          storeId: true,
           businessName: true,
           businessPhone: true,
           businessAddress: true,
           status: true,
+          emailVerified: true,
+          twoFactorEnabled: true,
+          lockedUntil: true,
           createdAt: true,
         },
       });
 
       if (!user) {
+        await recordLoginAttempt(req, { email, success: false, reason: 'UNKNOWN_EMAIL' });
         throw ErrorUtil.createUnauthorizedError('Invalid email or password');
       }
 
       // Check if account is active
       if (user.status !== 'ACTIVE') {
+        await recordLoginAttempt(req, { email, userId: user.id, success: false, reason: 'ACCOUNT_INACTIVE' });
         throw ErrorUtil.createUnauthorizedError('Account is suspended or banned');
       }
 
+      // Locked accounts are rejected before the password is checked
+      await assertNotLocked(req, user);
+
       // Verify password
       const isValidPassword = await PasswordUtil.comparePassword(password, user.password);
       if (!isValidPassword) {
+        await registerFailedLogin(req, user, 'INVALID_PASSWORD');
         throw ErrorUtil.createUnauthorizedError('Invalid email or password');
       }
 
-      // Generate tokens
-      const { accessToken, refreshToken } = JWTUtil.generateTokenPair({
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-        sellerRole: user.sellerRole,
-      });
+      // Remove password and lockout state from response
+      const { password: _, lockedUntil: __, ...userResponse } = user;
 
-      // Save refresh token to database
-      await prisma.refreshToken.create({
-        data: {
-          token: refreshToken,
+      // Enrolled accounts must pass the second step before any tokens are issued
+      if (user.twoFactorEnabled) {
+        const challengeToken = JWTUtil.generateChallengeToken({
           userId: user.id,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        },
-      });
-
-      // Remove password from response
-      const { password: _, ...userResponse } = user;
+          email: user.email,
+          role: user.role,
+          sellerRole: user.sellerRole,
+        });
 
-      // Set cookies
-      res.cookie('accessToken', accessToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 15 * 60 * 1000, // 15 minutes
-      });
+        res.json(
+          ResponseUtil.success('Two-factor authentication required', {
+            twoFactorRequired: true,
+            challengeToken,
+          })
+        );
+        return;
+      }
 
-      res.cookie('refreshToken', refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      });
+      await registerSuccessfulLogin(req, user);
+      const tokens = await completeLogin(req, res, user);
 
       res.json(
         ResponseUtil.success('Login successful', {
           user: userResponse,
-          tokens: {
-            accessToken,
-            refreshToken,
-          },
+          tokens,
+          twoFactorSetupRequired: await isTwoFactorRequired(user.role, user.sellerRole),
         })
       );
     } catch (error) {
@@ -210,65 +272,73 @@ export class AuthController {
     }
   }
 
-  // Refresh access token
-  async refreshToken(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+  // Complete a two-factor login with a TOTP or recovery code
+  async verifyTwoFactorLogin(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
     try {
-      const { refreshToken } = req.validatedData;
+      const { challengeToken, code, recoveryCode } = req.validatedData;
 
-      // Verify refresh token
-      const decoded = JWTUtil.verifyRefreshToken(refreshToken);
+      let challenge: JwtPayload;
+      try {
+        challenge = JWTUtil.verifyChallengeToken(challengeToken);
+      } catch (error) {
+        throw ErrorUtil.createUnauthorizedError('Login challenge is invalid or expired, please login again');
+      }
 
-      // Check if refresh token exists in database
-      const tokenRecord = await prisma.refreshToken.findUnique({
-        where: { token: refreshToken },
-        include: {
-          user: {
-            select: {
-              id: true,
-              email: true,
-              name: true,
-              role: true,
-              sellerRole: true,
-              status: true,
-            },
-          },
+      const user = await prisma.user.findUnique({
+        where: { id: challenge.userId },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          phone: true,
+          role: true,
+          sellerRole: true,
+          storeId: true,
+          businessName: true,
+          businessPhone: true,
+          businessAddress: true,
+          status: true,
+          emailVerified: true,
+          twoFactorEnabled: true,
+          lockedUntil: true,
+          createdAt: true,
         },
       });
 
-      if (!tokenRecord) {
-        throw ErrorUtil.createUnauthorizedError('Invalid refresh token');
+      if (!user || user.status !== 'ACTIVE') {
+        throw ErrorUtil.createUnauthorizedError('Account is suspended or banned');
       }
 
-      // Check if token is expired
-      if (tokenRecord.expiresAt < new Date()) {
-        // Clean up expired token
-        await prisma.refreshToken.delete({
-          where: { id: tokenRecord.id },
-        });
-        throw ErrorUtil.createUnauthorizedError('Refresh token expired');
-      }
+      await assertNotLocked(req, user);
 
-      // Check if user is still active
-      if (tokenRecord.user.status !== 'ACTIVE') {
-        throw ErrorUtil.createUnauthorizedError('Account is suspended or banned');
+      const isValidFactor = await verifySecondFactor(user.id, { code, recoveryCode });
+      if (!isValidFactor) {
+        await registerFailedLogin(req, user, 'INVALID_TWO_FACTOR_CODE');
+        throw ErrorUtil.createError('Invalid two-factor authentication code', 401, 'INVALID_TWO_FACTOR_CODE');
       }
 
-      // Generate new tokens
-      const { accessToken, refreshToken: newRefreshToken } = JWTUtil.generateTokenPair({
-        userId: tokenRecord.user.id,
-        email: tokenRecord.user.email,
-        role: tokenRecord.user.role,
-        sellerRole: tokenRecord.user.sellerRole,
-      });
+      await registerSuccessfulLogin(req, user);
+      const tokens = await completeLogin(req, res, user);
+      const { lockedUntil: _, ...userResponse } = user;
 
-      // Update refresh token in database
-      await prisma.refreshToken.update({
-        where: { id: tokenRecord.id },
-        data: {
-          token: newRefreshToken,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        },
-      });
+      res.json(
+        ResponseUtil.success('Login successful', {
+          user: userResponse,
+          tokens,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Refresh access token
+  async refreshToken(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { refreshToken } = req.validatedData;
+
+      // Rotate the token within its session; replays revoke the session
+      const { user, accessToken, refreshToken: newRefreshToken } = await rotateRefreshToken(refreshToken, req);
 
       // Set new cookies
       res.cookie('accessToken', accessToken, {
@@ -287,7 +357,7 @@ export class AuthController {
 
       res.json(
         ResponseUtil.success('Token refreshed successfully', {
-          user: tokenRecord.user,
+          user,
           tokens: {
             accessToken,
             refreshToken: newRefreshToken,
@@ -303,12 +373,13 @@ export class AuthController {
   async logout(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
     try {
       const refreshToken = req.cookies?.refreshToken;
+      const sessionId = req.sessionId || (refreshToken && await findSessionIdByRefreshToken(refreshToken));
 
-      if (refreshToken) {
-        // Remove refresh token from database
-        await prisma.refreshToken.deleteMany({
+      if (sessionId) {
+        // End only the current device's session
+        await prisma.session.deleteMany({
           where: { 
-            token: refreshToken,
+            id: sessionId,
             userId: req.user!.id 
           },
         });
@@ -327,10 +398,8 @@ export class AuthController {
   // Logout from all devices
   async logoutAll(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
     try {
-      // Remove all refresh tokens for the user
-      await prisma.refreshToken.deleteMany({
-        where: { userId: req.user!.id },
-      });
+      // Remove all sessions for the user
+      await revokeAllSessions(req.user!.id);
 
       // Clear cookies
       res.clearCookie('accessToken');
@@ -342,6 +411,59 @@ export class AuthController {
     }
   }
 
+  // List active sessions (devices) for the current user
+  async getSessions(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const sessions = await prisma.session.findMany({
+        where: { userId: req.user!.id },
+        select: {
+          id: true,
+          userAgent: true,
+          ipAddress: true,
+          lastUsedAt: true,
+          createdAt: true,
+        },
+        orderBy: { lastUsedAt: 'desc' },
+      });
+
+      res.json(
+        ResponseUtil.success('Sessions retrieved successfully', {
+          sessions: sessions.map((session) => ({
+            ...session,
+            isCurrent: session.id === req.sessionId,
+          })),
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Revoke a single session
+  async deleteSession(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const result = await prisma.session.deleteMany({
+        where: { id, userId: req.user!.id },
+      });
+
+      if (result.count === 0) {
+        throw ErrorUtil.createNotFoundError('Session');
+      }
+
+      // Revoking the current session behaves like logout
+      if (id === req.sessionId) {
+        res.clearCookie('accessToken');
+        res.clearCookie('refreshToken');
+      }
+
+      res.json(ResponseUtil.success('Session revoked successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Change password
   async changePassword(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
     try {
@@ -373,10 +495,8 @@ export class AuthController {
         data: { password: hashedNewPassword },
       });
 
-      // Logout from all devices (invalidate all refresh tokens)
-      await prisma.refreshToken.deleteMany({
-        where: { userId },
-      });
+      // Logout from all devices (invalidate all sessions)
+      await revokeAllSessions(userId);
 
       // Clear cookies
       res.clearCookie('accessToken');
@@ -388,6 +508,162 @@ export class AuthController {
     }
   }
 
+  // Request a password reset email
+  async forgotPassword(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { email } = req.validatedData;
+
+      const user = await prisma.user.findUnique({
+        where: { email },
+        select: { id: true, email: true, name: true, status: true },
+      });
+
+      // Only active accounts get a link; the response never reveals whether the email exists
+      if (user && user.status === 'ACTIVE') {
+        const resetToken = TokenUtil.generateToken();
+
+        await prisma.$transaction([
+          // A new request supersedes any outstanding link
+          prisma.passwordResetToken.deleteMany({
+            where: { userId: user.id, usedAt: null },
+          }),
+          prisma.passwordResetToken.create({
+            data: {
+              tokenHash: TokenUtil.hashToken(resetToken),
+              userId: user.id,
+              expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+            },
+          }),
+        ]);
+
+        await emailService.sendPasswordResetEmail(user.email, resetToken, user.name);
+      }
+
+      res.json(ResponseUtil.success('If an account exists for this email, a password reset link has been sent'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Reset password with an emailed token
+  async resetPassword(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { token, newPassword } = req.validatedData;
+
+      const resetToken = await prisma.passwordResetToken.findUnique({
+        where: { tokenHash: TokenUtil.hashToken(token) },
+        include: {
+          user: {
+            select: { status: true },
+          },
+        },
+      });
+
+      if (
+        !resetToken ||
+        resetToken.usedAt ||
+        resetToken.expiresAt < new Date() ||
+        resetToken.user.status !== 'ACTIVE'
+      ) {
+        throw ErrorUtil.createError('Invalid or expired reset token', 400, 'INVALID_RESET_TOKEN');
+      }
+
+      const hashedPassword = await PasswordUtil.hashPassword(newPassword);
+
+      await prisma.$transaction(async (tx) => {
+        // Mark the token used first so concurrent requests cannot both consume it
+        const claimed = await tx.passwordResetToken.updateMany({
+          where: { id: resetToken.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          throw ErrorUtil.createError('Invalid or expired reset token', 400, 'INVALID_RESET_TOKEN');
+        }
+
+        // Proving control of the inbox also lifts any brute-force lockout
+        await tx.user.update({
+          where: { id: resetToken.userId },
+          data: {
+            password: hashedPassword,
+            failedLoginAttempts: 0,
+            lockedUntil: null,
+          },
+        });
+
+        // Drop any other outstanding links and sign out everywhere
+        await tx.passwordResetToken.deleteMany({
+          where: { userId: resetToken.userId, usedAt: null },
+        });
+
+        await revokeAllSessions(resetToken.userId, tx);
+      });
+
+      // Clear cookies
+      res.clearCookie('accessToken');
+      res.clearCookie('refreshToken');
+
+      res.json(ResponseUtil.success('Password reset successfully. Please login with your new password.'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Verify email address with an emailed token
+  async verifyEmail(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { token } = req.validatedData;
+
+      const verificationToken = await prisma.emailVerificationToken.findUnique({
+        where: { tokenHash: TokenUtil.hashToken(token) },
+      });
+
+      if (!verificationToken || verificationToken.expiresAt < new Date()) {
+        throw ErrorUtil.createError('Invalid or expired verification token', 400, 'INVALID_VERIFICATION_TOKEN');
+      }
+
+      await prisma.$transaction(async (tx) => {
+        // Deleting the token consumes it; a concurrent request finds nothing to delete
+        const consumed = await tx.emailVerificationToken.deleteMany({
+          where: { id: verificationToken.id },
+        });
+
+        if (consumed.count === 0) {
+          throw ErrorUtil.createError('Invalid or expired verification token', 400, 'INVALID_VERIFICATION_TOKEN');
+        }
+
+        await tx.user.update({
+          where: { id: verificationToken.userId },
+          data: {
+            emailVerified: true,
+            emailVerifiedAt: new Date(),
+          },
+        });
+      });
+
+      res.json(ResponseUtil.success('Email verified successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Resend the verification email
+  async resendVerification(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id, email, name, emailVerified } = req.user!;
+
+      if (emailVerified) {
+        throw ErrorUtil.createError('Email is already verified', 400, 'EMAIL_ALREADY_VERIFIED');
+      }
+
+      await sendEmailVerification({ id, email, name });
+
+      res.json(ResponseUtil.success('Verification email sent'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Get user profile
   async getProfile(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
     try {
@@ -403,12 +679,17 @@ export class AuthController {
           avatar: true,
           role: true,
           sellerRole: true,
+          storeId: true,
           businessName: true,
           businessPhone: true,
           businessAddress: true,
           status: true,
+          emailVerified: true,
           createdAt: true,
           updatedAt: true,
+          store: {
+            select: { id: true, name: true, slug: true },
+          },
         },
       });
 
@@ -422,6 +703,23 @@ export class AuthController {
     }
   }
 
+  // Get the effective permissions of the current user
+  async getPermissions(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { role, sellerRole, permissions } = req.user!;
+
+      res.json(
+        ResponseUtil.success('Permissions retrieved successfully', {
+          role,
+          sellerRole,
+          permissions,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Verify token
   async verifyToken(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
     try {
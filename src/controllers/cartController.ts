@@ -0,0 +1,206 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse, CartOwner } from '../types';
+import { ResponseUtil, ErrorUtil } from '../utils';
+import {
+  getCart,
+  applyCartAdjustments,
+  emptyCart,
+  getGuestCartToken,
+  findGuestCart,
+  createGuestCart
+} from '../services/cartService';
+
+const prisma = new PrismaClient();
+
+// Buyers use their own cart; anonymous shoppers get a guest cart
+const resolveCartOwner = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  createIfMissing: boolean = false
+): Promise<{ owner: CartOwner; guestToken?: string } | null> => {
+  if (req.user) {
+    if (req.user.role !== 'BUYER') {
+      throw ErrorUtil.createForbiddenError('Only buyers can use the cart');
+    }
+    return { owner: { userId: req.user.id } };
+  }
+
+  const token = getGuestCartToken(req);
+  let guestCart = token ? await findGuestCart(token) : null;
+
+  if (!guestCart && createIfMissing) {
+    guestCart = await createGuestCart(res);
+  }
+
+  if (!guestCart) {
+    return null;
+  }
+
+  return {
+    owner: { guestCartId: guestCart.id },
+    guestToken: guestCart.token,
+  };
+};
+
+// Look up a product that can still be added to a cart
+const getAvailableProduct = async (productId: string) => {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: { id: true, title: true, stock: true, isActive: true },
+  });
+
+  if (!product || !product.isActive) {
+    throw ErrorUtil.createNotFoundError('Product');
+  }
+
+  if (product.stock === 0) {
+    throw ErrorUtil.createError(`${product.title} is out of stock`, 409, 'OUT_OF_STOCK');
+  }
+
+  return product;
+};
+
+export class CartController {
+  // Get current cart
+  async getCart(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const cartOwner = await resolveCartOwner(req, res);
+      const cart = cartOwner ? await getCart(cartOwner.owner) : emptyCart();
+
+      res.json(
+        ResponseUtil.success('Cart retrieved successfully', {
+          cart,
+          guestToken: cartOwner?.guestToken,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Add a product to the cart, increasing the quantity if it is already there
+  async addToCart(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { productId, quantity } = req.validatedData;
+
+      const product = await getAvailableProduct(productId);
+      const { owner, guestToken } = (await resolveCartOwner(req, res, true))!;
+
+      await applyCartAdjustments(owner);
+
+      const existingItem = await prisma.cartItem.findFirst({
+        where: { ...owner, productId },
+      });
+
+      // Never hold more than what is in stock
+      const newQuantity = Math.min((existingItem?.quantity || 0) + quantity, product.stock);
+
+      if (existingItem) {
+        await prisma.cartItem.update({
+          where: { id: existingItem.id },
+          data: { quantity: newQuantity },
+        });
+      } else {
+        await prisma.cartItem.create({
+          data: { ...owner, productId, quantity: newQuantity },
+        });
+      }
+
+      const cart = await getCart(owner);
+
+      res.json(ResponseUtil.success('Item added to cart', { cart, guestToken }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Set the quantity of a cart line
+  async updateCartItem(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { productId } = req.params;
+      const { quantity } = req.validatedData;
+
+      const cartOwner = await resolveCartOwner(req, res);
+
+      const existingItem = cartOwner
+        ? await prisma.cartItem.findFirst({
+            where: { ...cartOwner.owner, productId },
+          })
+        : null;
+
+      if (!cartOwner || !existingItem) {
+        throw ErrorUtil.createNotFoundError('Cart item');
+      }
+
+      const product = await getAvailableProduct(productId);
+
+      await prisma.cartItem.update({
+        where: { id: existingItem.id },
+        data: { quantity: Math.min(quantity, product.stock) },
+      });
+
+      await applyCartAdjustments(cartOwner.owner);
+
+      const cart = await getCart(cartOwner.owner);
+
+      res.json(
+        ResponseUtil.success('Cart updated successfully', {
+          cart,
+          guestToken: cartOwner.guestToken,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove a single product from the cart
+  async removeCartItem(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { productId } = req.params;
+
+      const cartOwner = await resolveCartOwner(req, res);
+
+      const result = cartOwner
+        ? await prisma.cartItem.deleteMany({
+            where: { ...cartOwner.owner, productId },
+          })
+        : { count: 0 };
+
+      if (!cartOwner || result.count === 0) {
+        throw ErrorUtil.createNotFoundError('Cart item');
+      }
+
+      await applyCartAdjustments(cartOwner.owner);
+
+      const cart = await getCart(cartOwner.owner);
+
+      res.json(
+        ResponseUtil.success('Item removed from cart', {
+          cart,
+          guestToken: cartOwner.guestToken,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove everything from the cart
+  async clearCart(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const cartOwner = await resolveCartOwner(req, res);
+
+      if (cartOwner) {
+        await prisma.cartItem.deleteMany({
+          where: cartOwner.owner,
+        });
+      }
+
+      res.json(ResponseUtil.success('Cart cleared successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { ResponseUtil, ErrorUtil, ValidationUtil } from '../utils';
+import {
+  getCategoryTree,
+  getDescendantIds,
+  getCategoryPath,
+  generateUniqueSlug
+} from '../services/categoryService';
+
+const prisma = new PrismaClient();
+
+export class CategoryController {
+  // Get all categories as a flat list
+  async getCategories(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { includeInactive } = req.validatedData;
+
+      // Only admins can see inactive categories
+      const showInactive = includeInactive === true && req.user?.role === 'ADMIN';
+
+      const categories = await prisma.category.findMany({
+        where: showInactive ? {} : { isActive: true },
+        include: {
+          _count: {
+            select: {
+              products: { where: { isActive: true } },
+              children: true,
+            },
+          },
+        },
+        orderBy: { name: 'asc' },
+      });
+
+      res.json(ResponseUtil.success('Categories retrieved successfully', { categories }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get nested category tree with product counts
+  async getCategoryTree(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { includeInactive } = req.validatedData;
+      const showInactive = includeInactive === true && req.user?.role === 'ADMIN';
+
+      const tree = await getCategoryTree(showInactive);
+
+      res.json(ResponseUtil.success('Category tree retrieved successfully', { categories: tree }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get single category by ID or slug
+  async getCategory(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const category = await prisma.category.findFirst({
+        where: {
+          OR: [{ id }, { slug: id }],
+        },
+        include: {
+          children: {
+            where: { isActive: true },
+            select: { id: true, name: true, slug: true, image: true },
+            orderBy: { name: 'asc' },
+          },
+          _count: {
+            select: { products: { where: { isActive: true } } },
+          },
+        },
+      });
+
+      if (!category || (!category.isActive && req.user?.role !== 'ADMIN')) {
+        throw ErrorUtil.createNotFoundError('Category');
+      }
+
+      const path = await getCategoryPath(category.id);
+
+      res.json(ResponseUtil.success('Category retrieved successfully', { category, path }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create category (Admin only)
+  async createCategory(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { name, description, image, isActive, parentId } = req.validatedData;
+
+      if (parentId) {
+        const parent = await prisma.category.findUnique({
+          where: { id: parentId },
+        });
+
+        if (!parent) {
+          throw ErrorUtil.createNotFoundError('Parent category');
+        }
+      }
+
+      const sanitizedName = ValidationUtil.sanitizeString(name);
+
+      const category = await prisma.category.create({
+        data: {
+          name: sanitizedName,
+          slug: await generateUniqueSlug(sanitizedName),
+          description,
+          image,
+          isActive,
+          parentId,
+        },
+        include: {
+          parent: {
+            select: { id: true, name: true, slug: true },
+          },
+        },
+      });
+
+      res.status(201).json(ResponseUtil.success('Category created successfully', { category }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update category (Admin only)
+  async updateCategory(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { name, description, image, isActive, parentId } = req.validatedData;
+
+      const existingCategory = await prisma.category.findUnique({
+        where: { id },
+      });
+
+      if (!existingCategory) {
+        throw ErrorUtil.createNotFoundError('Category');
+      }
+
+      const updateData: Prisma.CategoryUpdateInput = { description, image, isActive };
+
+      if (name) {
+        const sanitizedName = ValidationUtil.sanitizeString(name);
+        updateData.name = sanitizedName;
+        if (sanitizedName !== existingCategory.name) {
+          updateData.slug = await generateUniqueSlug(sanitizedName, id);
+        }
+      }
+
+      if (parentId !== undefined) {
+        if (parentId) {
+          const parent = await prisma.category.findUnique({
+            where: { id: parentId },
+          });
+
+          if (!parent) {
+            throw ErrorUtil.createNotFoundError('Parent category');
+          }
+
+          // A category cannot be moved under itself or one of its descendants
+          const descendantIds = await getDescendantIds([id]);
+          if (descendantIds.includes(parentId)) {
+            throw ErrorUtil.createError('A category cannot be nested under itself or its subcategories', 400, 'INVALID_PARENT');
+          }
+        }
+
+        updateData.parent = parentId ? { connect: { id: parentId } } : { disconnect: true };
+      }
+
+      const category = await prisma.category.update({
+        where: { id },
+        data: updateData,
+        include: {
+          parent: {
+            select: { id: true, name: true, slug: true },
+          },
+        },
+      });
+
+      res.json(ResponseUtil.success('Category updated successfully', { category }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete category (Admin only)
+  async deleteCategory(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const existingCategory = await prisma.category.findUnique({
+        where: { id },
+        include: {
+          _count: {
+            select: { products: true, children: true },
+          },
+        },
+      });
+
+      if (!existingCategory) {
+        throw ErrorUtil.createNotFoundError('Category');
+      }
+
+      if (existingCategory._count.children > 0) {
+        throw ErrorUtil.createError('Move or delete the subcategories first', 409, 'HAS_SUBCATEGORIES');
+      }
+
+      if (existingCategory._count.products > 0) {
+        // Soft delete by deactivating instead of hard delete
+        await prisma.category.update({
+          where: { id },
+          data: { isActive: false },
+        });
+
+        res.json(ResponseUtil.success('Category deactivated successfully (has existing products)'));
+      } else {
+        await prisma.category.delete({
+          where: { id },
+        });
+
+        res.json(ResponseUtil.success('Category deleted successfully'));
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { ResponseUtil, ErrorUtil } from '../utils';
+import { buildReconciliationReport, getReportDay, remitCodCollections } from '../services/codService';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORT_DAYS = 92;
+
+// Sellers only see their own store; admins see every store or narrow to one
+const getStoreScope = (req: AuthenticatedRequest, requestedStoreId?: string): Prisma.CodCollectionWhereInput => {
+  const user = req.user!;
+
+  if (user.role === 'ADMIN') {
+    return requestedStoreId ? { storeId: requestedStoreId } : {};
+  }
+
+  if (!user.storeId) {
+    throw ErrorUtil.createForbiddenError('You are not a member of a store');
+  }
+
+  return { storeId: user.storeId };
+};
+
+export class CodController {
+  // List cash-on-delivery collections (Manager, Accountant or Admin)
+  async getCollections(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const {
+        page,
+        limit,
+        order,
+        storeId,
+        courierName,
+        remitted,
+        dateFrom,
+        dateTo,
+      } = req.validatedData;
+
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.CodCollectionWhereInput = getStoreScope(req, storeId);
+
+      if (courierName) where.courierName = { equals: courierName, mode: 'insensitive' };
+      if (remitted !== undefined) where.remittedAt = remitted ? { not: null } : null;
+
+      if (dateFrom || dateTo) {
+        where.collectedAt = {};
+        if (dateFrom) where.collectedAt.gte = dateFrom;
+        if (dateTo) where.collectedAt.lte = dateTo;
+      }
+
+      const [collections, total] = await Promise.all([
+        prisma.codCollection.findMany({
+          where,
+          include: {
+            order: {
+              select: { id: true, orderNumber: true, status: true },
+            },
+            recordedBy: {
+              select: { id: true, name: true },
+            },
+            remittedBy: {
+              select: { id: true, name: true },
+            },
+          },
+          orderBy: { collectedAt: order },
+          skip,
+          take: limit,
+        }),
+        prisma.codCollection.count({ where }),
+      ]);
+
+      res.json(
+        ResponseUtil.success('Cash collections retrieved successfully',
+          ResponseUtil.paginate(collections, page, limit, total)
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Record that couriers handed collected cash over to the store (Manager, Accountant or Admin)
+  async remitCollections(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { collectionIds, remittanceReference, remittedAt } = req.validatedData;
+
+      if (remittedAt && remittedAt > new Date()) {
+        throw ErrorUtil.createValidationError('remittedAt', 'Remittance time cannot be in the future');
+      }
+
+      const uniqueIds: string[] = Array.from(new Set(collectionIds));
+
+      const remittedCount = await remitCodCollections(
+        {
+          ...getStoreScope(req),
+          id: { in: uniqueIds },
+        },
+        { remittanceReference, remittedAt },
+        req.user!.id
+      );
+
+      res.json(
+        ResponseUtil.success('Cash remittance recorded successfully', {
+          remittedCount,
+          // Unknown, other stores' or already remitted collections are skipped
+          skippedCount: uniqueIds.length - remittedCount,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Collected vs remitted cash per courier and day (Manager, Accountant or Admin)
+  async getReconciliationReport(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { dateFrom, dateTo, storeId, courierName } = req.validatedData;
+
+      if (dateTo.getTime() - dateFrom.getTime() > MAX_REPORT_DAYS * DAY_MS) {
+        throw ErrorUtil.createError(`Reports can cover at most ${MAX_REPORT_DAYS} days`, 400, 'REPORT_RANGE_TOO_LARGE');
+      }
+
+      const fromDay = getReportDay(dateFrom);
+      const toDay = getReportDay(dateTo);
+
+      const where: Prisma.CodCollectionWhereInput = {
+        ...getStoreScope(req, storeId),
+        // Widened by a day on each side; rows are then matched on the local calendar day
+        collectedAt: {
+          gte: new Date(dateFrom.getTime() - DAY_MS),
+          lt: new Date(dateTo.getTime() + 2 * DAY_MS),
+        },
+      };
+
+      if (courierName) where.courierName = { equals: courierName, mode: 'insensitive' };
+
+      const collections = await prisma.codCollection.findMany({
+        where,
+        select: {
+          courierName: true,
+          amount: true,
+          collectedAt: true,
+          remittedAt: true,
+        },
+      });
+
+      const report = buildReconciliationReport(
+        collections.filter((collection) => {
+          const day = getReportDay(collection.collectedAt);
+          return day >= fromDay && day <= toDay;
+        })
+      );
+
+      res.json(
+        ResponseUtil.success('Cash reconciliation report generated successfully', {
+          dateFrom: fromDay,
+          dateTo: toDay,
+          ...report,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,523 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient, Prisma, Product, PaymentMethod, OrderStatus } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse, OrderFilter, ShippingAddress } from '../types';
+import {
+  ResponseUtil,
+  ErrorUtil,
+  StringUtil,
+  PriceUtil,
+  PermissionUtil,
+  OrderStatusUtil
+} from '../utils';
+import { sendNewOrderNotification, sendOrderUpdate, sendPaymentUpdate } from '../services/socketService';
+import { recordCodCollection } from '../services/codService';
+import { applyCartAdjustments } from '../services/cartService';
+
+const prisma = new PrismaClient();
+
+// Relations returned with every order
+const orderInclude = {
+  items: {
+    include: {
+      product: {
+        select: { id: true, title: true, images: true, sku: true },
+      },
+    },
+  },
+  buyer: {
+    select: { id: true, name: true, email: true, phone: true },
+  },
+  store: {
+    select: { id: true, name: true, slug: true, phone: true },
+  },
+  seller: {
+    select: { id: true, name: true, businessName: true, businessPhone: true },
+  },
+  statusHistory: {
+    include: {
+      changedBy: {
+        select: { id: true, name: true, role: true },
+      },
+    },
+    orderBy: { createdAt: 'asc' as const },
+  },
+  codCollection: true,
+  payments: {
+    orderBy: { createdAt: 'desc' as const },
+  },
+  refunds: {
+    orderBy: { createdAt: 'desc' as const },
+  },
+};
+
+// Addresses are stored as JSON columns on the order
+type JsonAddress = ShippingAddress & Prisma.InputJsonObject;
+
+interface OrderDetails {
+  shippingAddress: JsonAddress;
+  billingAddress?: JsonAddress;
+  paymentMethod: PaymentMethod;
+  notes?: string;
+  checkoutId?: string;
+}
+
+// Load the requested products, rejecting any that are missing or inactive
+const loadOrderableProducts = async (tx: Prisma.TransactionClient, quantities: Map<string, number>) => {
+  const products = await tx.product.findMany({
+    where: { id: { in: Array.from(quantities.keys()) } },
+  });
+
+  for (const productId of quantities.keys()) {
+    const product = products.find((p) => p.id === productId);
+    if (!product || !product.isActive) {
+      throw ErrorUtil.createError(`Product ${productId} is not available`, 400, 'ITEM_UNAVAILABLE');
+    }
+  }
+
+  return products;
+};
+
+// Create one order for products of a single store, reserving stock as it goes
+const createSellerOrder = async (
+  tx: Prisma.TransactionClient,
+  buyerId: string,
+  products: Product[],
+  quantities: Map<string, number>,
+  details: OrderDetails
+) => {
+  // Snapshot prices and decrement stock, guarding against concurrent orders
+  let subtotal = 0;
+  const orderItems: Array<{ productId: string; quantity: number; price: number }> = [];
+
+  for (const product of products) {
+    const quantity = quantities.get(product.id)!;
+
+    const updated = await tx.product.updateMany({
+      where: {
+        id: product.id,
+        isActive: true,
+        stock: { gte: quantity },
+      },
+      data: { stock: { decrement: quantity } },
+    });
+
+    if (updated.count === 0) {
+      throw ErrorUtil.createError(`Insufficient stock for ${product.title}`, 409, 'OUT_OF_STOCK');
+    }
+
+    const price = PriceUtil.getEffectivePrice(product);
+    subtotal += price * quantity;
+    orderItems.push({ productId: product.id, quantity, price });
+  }
+
+  const totals = PriceUtil.calculateOrderTotals(subtotal);
+
+  return tx.order.create({
+    data: {
+      orderNumber: StringUtil.generateOrderNumber(),
+      paymentMethod: details.paymentMethod,
+      ...totals,
+      shippingAddress: details.shippingAddress,
+      billingAddress: details.billingAddress ?? Prisma.JsonNull,
+      buyerId,
+      storeId: products[0].storeId,
+      sellerId: products[0].sellerId,
+      checkoutId: details.checkoutId,
+      items: {
+        create: orderItems,
+      },
+      statusHistory: {
+        create: {
+          status: 'PENDING_APPROVAL',
+          notes: details.notes || 'Order placed',
+          changedById: buyerId,
+        },
+      },
+    },
+    include: orderInclude,
+  });
+};
+
+export class OrderController {
+  // Place a new order for a single store's products (Buyer only)
+  async createOrder(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const {
+        items,
+        shippingAddress,
+        billingAddress,
+        paymentMethod,
+        notes,
+      } = req.validatedData;
+
+      const buyerId = req.user!.id;
+
+      // Merge duplicate lines for the same product
+      const quantities = new Map<string, number>();
+      for (const item of items) {
+        quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+      }
+
+      const order = await prisma.$transaction(async (tx) => {
+        const products = await loadOrderableProducts(tx, quantities);
+
+        const storeIds = new Set(products.map((product) => product.storeId));
+        if (storeIds.size > 1) {
+          throw ErrorUtil.createError(
+            'All items in an order must be from the same seller. Use cart checkout for multiple sellers.',
+            400,
+            'MULTIPLE_SELLERS'
+          );
+        }
+
+        return createSellerOrder(tx, buyerId, products, quantities, {
+          shippingAddress,
+          billingAddress,
+          paymentMethod,
+          notes,
+        });
+      });
+
+      // Notify the store's team in real time
+      sendNewOrderNotification(order.storeId, {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        buyerName: order.buyer.name,
+        total: order.total,
+      });
+
+      res.status(201).json(ResponseUtil.success('Order placed successfully', { order }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Check out the buyer's cart, creating one order per store (Buyer only)
+  async checkout(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const {
+        shippingAddress,
+        billingAddress,
+        paymentMethod,
+        notes,
+      } = req.validatedData;
+
+      const buyerId = req.user!.id;
+
+      // The buyer was shown these corrections with the cart, so they are applied before ordering
+      const adjustments = await applyCartAdjustments({ userId: buyerId });
+
+      const cartItems = await prisma.cartItem.findMany({
+        where: { userId: buyerId },
+      });
+
+      if (cartItems.length === 0) {
+        throw ErrorUtil.createError('Your cart is empty', 400, 'EMPTY_CART');
+      }
+
+      const quantities = new Map<string, number>(
+        cartItems.map((item) => [item.productId, item.quantity])
+      );
+
+      const checkout = await prisma.$transaction(async (tx) => {
+        const products = await loadOrderableProducts(tx, quantities);
+
+        // Group cart lines by store
+        const productsByStore = new Map<string, Product[]>();
+        for (const product of products) {
+          const storeProducts = productsByStore.get(product.storeId) || [];
+          storeProducts.push(product);
+          productsByStore.set(product.storeId, storeProducts);
+        }
+
+        const checkoutRecord = await tx.checkout.create({
+          data: {
+            checkoutNumber: StringUtil.generateCheckoutNumber(),
+            paymentMethod,
+            total: 0,
+            buyerId,
+          },
+        });
+
+        const orders = [];
+        for (const storeProducts of productsByStore.values()) {
+          orders.push(
+            await createSellerOrder(tx, buyerId, storeProducts, quantities, {
+              shippingAddress,
+              billingAddress,
+              paymentMethod,
+              notes,
+              checkoutId: checkoutRecord.id,
+            })
+          );
+        }
+
+        // The buyer pays the combined total of all store orders once
+        const total = PriceUtil.round(
+          orders.reduce((sum, order) => sum + Number(order.total), 0)
+        );
+
+        const updatedCheckout = await tx.checkout.update({
+          where: { id: checkoutRecord.id },
+          data: { total },
+        });
+
+        await tx.cartItem.deleteMany({
+          where: { userId: buyerId },
+        });
+
+        return { ...updatedCheckout, orders };
+      });
+
+      // Notify every store involved in the checkout
+      for (const order of checkout.orders) {
+        sendNewOrderNotification(order.storeId, {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          checkoutNumber: checkout.checkoutNumber,
+          buyerName: order.buyer.name,
+          total: order.total,
+        });
+      }
+
+      res.status(201).json(ResponseUtil.success('Checkout completed successfully', { checkout, adjustments }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Move an order to a new status (Seller manager, Admin, or Buyer cancelling)
+  async updateOrderStatus(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { status, notes, codCollection } = req.validatedData;
+      const user = req.user!;
+
+      // Loaded and ownership-checked by requireResourceOwnership
+      const existingOrder = req.resources!.order!;
+
+      // Delivering a cash-on-delivery order is when the courier collects the payment
+      const collectsCash = status === 'COMPLETED' && existingOrder.paymentMethod === 'CASH_ON_DELIVERY';
+
+      if (user.role === 'SELLER') {
+        // Seller transitions apply to the store's orders, not ones the account placed as a buyer
+        if (existingOrder.storeId !== user.storeId) {
+          throw ErrorUtil.createForbiddenError('You can only update your store\'s orders');
+        }
+
+        if (!PermissionUtil.hasPermission(user.permissions, 'order:status:update')) {
+          throw ErrorUtil.createForbiddenError('You do not have permission to manage orders');
+        }
+      }
+
+      if (!OrderStatusUtil.isValidTransition(existingOrder.status, status)) {
+        throw ErrorUtil.createError(
+          `Cannot change order status from ${existingOrder.status} to ${status}`,
+          400,
+          'INVALID_STATUS_TRANSITION'
+        );
+      }
+
+      if (!OrderStatusUtil.canTransition(existingOrder.status, status, user.role)) {
+        throw ErrorUtil.createForbiddenError(`You are not allowed to change this order to ${status}`);
+      }
+
+      if (collectsCash && !codCollection) {
+        throw ErrorUtil.createError('Cash collection details are required to complete a cash-on-delivery order', 400, 'COD_COLLECTION_REQUIRED');
+      }
+
+      if (codCollection && !collectsCash) {
+        throw ErrorUtil.createValidationError('codCollection', 'Cash collection can only be recorded when completing a cash-on-delivery order');
+      }
+
+      const order = await prisma.$transaction(async (tx) => {
+        // Only apply the change if nobody else moved the order in the meantime
+        const updated = await tx.order.updateMany({
+          where: { id, status: existingOrder.status },
+          data: { status },
+        });
+
+        if (updated.count === 0) {
+          throw ErrorUtil.createError('Order status has changed, please refresh and try again', 409, 'STATUS_CONFLICT');
+        }
+
+        // Return reserved stock for cancelled or rejected orders
+        if (OrderStatusUtil.releasesStock(status)) {
+          for (const item of existingOrder.items) {
+            await tx.product.update({
+              where: { id: item.productId },
+              data: { stock: { increment: item.quantity } },
+            });
+          }
+        }
+
+        if (collectsCash) {
+          await recordCodCollection(tx, existingOrder, codCollection, user.id);
+        }
+
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId: id,
+            status,
+            notes,
+            changedById: user.id,
+          },
+        });
+
+        return tx.order.findUniqueOrThrow({
+          where: { id },
+          include: orderInclude,
+        });
+      });
+
+      sendOrderUpdate(order.buyerId, order.storeId, {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        previousStatus: existingOrder.status,
+        notes,
+        changedBy: {
+          id: user.id,
+          name: user.name,
+          role: user.role,
+        },
+      });
+
+      if (collectsCash) {
+        sendPaymentUpdate(order.buyerId, order.storeId, {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          paymentMethod: order.paymentMethod,
+          paymentStatus: order.paymentStatus,
+        });
+      }
+
+      res.json(ResponseUtil.success('Order status updated successfully', { order }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List orders, scoped to the requesting user's role
+  async getOrders(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const {
+        page,
+        limit,
+        sort = 'createdAt',
+        order,
+        status,
+        buyerId,
+        sellerId,
+        storeId,
+        dateFrom,
+        dateTo,
+        paymentMethod,
+      } = req.validatedData as OrderFilter & { dateFrom?: Date; dateTo?: Date };
+
+      const user = req.user!;
+      const skip = (page! - 1) * limit!;
+
+      // Buyers only see their purchases and sellers only their store's sales
+      const where: Prisma.OrderWhereInput = {};
+
+      if (user.role === 'BUYER') {
+        where.buyerId = user.id;
+      } else if (user.role === 'SELLER') {
+        where.storeId = user.storeId ?? '';
+        if (sellerId) where.sellerId = sellerId;
+      } else {
+        if (buyerId) where.buyerId = buyerId;
+        if (sellerId) where.sellerId = sellerId;
+        if (storeId) where.storeId = storeId;
+      }
+
+      if (status) {
+        where.status = status as OrderStatus;
+      }
+
+      if (paymentMethod) {
+        where.paymentMethod = paymentMethod as PaymentMethod;
+      }
+
+      if (dateFrom || dateTo) {
+        where.createdAt = {};
+        if (dateFrom) where.createdAt.gte = dateFrom;
+        if (dateTo) where.createdAt.lte = dateTo;
+      }
+
+      const sortField = ['createdAt', 'updatedAt', 'total', 'status'].includes(sort) ? sort : 'createdAt';
+
+      const [orders, total] = await Promise.all([
+        prisma.order.findMany({
+          where,
+          include: {
+            buyer: {
+              select: { id: true, name: true, email: true },
+            },
+            store: {
+              select: { id: true, name: true, slug: true },
+            },
+            seller: {
+              select: { id: true, name: true, businessName: true },
+            },
+            items: {
+              include: {
+                product: {
+                  select: { id: true, title: true, images: true },
+                },
+              },
+            },
+            _count: {
+              select: { items: true },
+            },
+          },
+          orderBy: { [sortField]: order },
+          skip,
+          take: limit,
+        }),
+        prisma.order.count({ where }),
+      ]);
+
+      res.json(
+        ResponseUtil.success('Orders retrieved successfully',
+          ResponseUtil.paginate(orders, page!, limit!, total)
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a single order with items and full status history
+  async getOrder(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const user = req.user!;
+
+      const order = await prisma.order.findUnique({
+        where: { id },
+        include: {
+          ...orderInclude,
+          checkout: {
+            select: { id: true, checkoutNumber: true, total: true },
+          },
+        },
+      });
+
+      // Access was checked by requireResourceOwnership
+      if (!order) {
+        throw ErrorUtil.createNotFoundError('Order');
+      }
+
+      res.json(
+        ResponseUtil.success('Order retrieved successfully', {
+          order,
+          allowedTransitions: OrderStatusUtil.getAllowedTransitions(order.status, user.role),
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
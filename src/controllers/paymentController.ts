@@ -0,0 +1,337 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { ResponseUtil, ErrorUtil, PriceUtil } from '../utils';
+import {
+  advancePayment,
+  capturePayment,
+  findPaymentByIdempotencyKey,
+  findPaymentTransactions,
+  getPaymentProviderBySlug,
+  initiatePayment,
+  processCallback,
+  transactionInclude,
+  PaymentTarget,
+  TransactionWithOrder
+} from '../services/paymentService';
+
+const prisma = new PrismaClient();
+
+// Payment fields returned to clients
+const toPaymentSummary = (transaction: TransactionWithOrder) => ({
+  orderId: transaction.order.id,
+  orderNumber: transaction.order.orderNumber,
+  paymentMethod: transaction.order.paymentMethod,
+  paymentStatus: transaction.order.paymentStatus,
+  total: transaction.order.total,
+  transactionId: transaction.id,
+  transactionStatus: transaction.status,
+  paymentID: transaction.providerPaymentId,
+  providerTransactionId: transaction.providerTransactionId,
+});
+
+// A started payment as returned to the buyer; a checkout payment also lists the share of each order
+const toCreatedPayment = (transactions: TransactionWithOrder[], redirectUrl: string | null, target: PaymentTarget) => ({
+  transactionId: transactions[0].id,
+  paymentID: transactions[0].providerPaymentId,
+  redirectUrl,
+  amount: PriceUtil.round(transactions.reduce((sum, transaction) => sum + Number(transaction.amount), 0)),
+  ...(target.checkout
+    ? {
+      checkoutNumber: target.checkout.checkoutNumber,
+      orders: transactions.map((transaction) => ({
+        transactionId: transaction.id,
+        orderNumber: transaction.order.orderNumber,
+        amount: transaction.amount,
+      })),
+    }
+    : { orderNumber: transactions[0].order.orderNumber }),
+});
+
+// The order, or every order of the checkout, a buyer asked to pay for
+const loadPaymentTarget = async (buyerId: string, target: { orderId?: string; checkoutId?: string }): Promise<PaymentTarget> => {
+  if (target.checkoutId) {
+    const checkout = await prisma.checkout.findUnique({
+      where: { id: target.checkoutId },
+      include: { orders: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!checkout) {
+      throw ErrorUtil.createNotFoundError('Checkout');
+    }
+
+    if (checkout.buyerId !== buyerId) {
+      throw ErrorUtil.createForbiddenError('You can only pay for your own orders');
+    }
+
+    const { orders, ...checkoutRecord } = checkout;
+    return { orders, checkout: checkoutRecord };
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: target.orderId },
+  });
+
+  if (!order) {
+    throw ErrorUtil.createNotFoundError('Order');
+  }
+
+  if (order.buyerId !== buyerId) {
+    throw ErrorUtil.createForbiddenError('You can only pay for your own orders');
+  }
+
+  return { orders: [order], checkout: null };
+};
+
+const PAID_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED'];
+const CLOSED_STATUSES = ['CANCELLED', 'REJECTED'];
+
+// Sellers only see their own store's payments; admins see every store or narrow to one
+const getStoreScope = (req: AuthenticatedRequest, requestedStoreId?: string): Prisma.OrderWhereInput => {
+  const user = req.user!;
+
+  if (user.role === 'ADMIN') {
+    return requestedStoreId ? { storeId: requestedStoreId } : {};
+  }
+
+  if (!user.storeId) {
+    throw ErrorUtil.createForbiddenError('You are not a member of a store');
+  }
+
+  return { storeId: user.storeId };
+};
+
+export class PaymentController {
+  // Start a payment for an order, or for every order of a checkout at once, with its payment provider (Buyer only)
+  async createPayment(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { provider: slug, orderId, checkoutId } = req.validatedData;
+      const user = req.user!;
+
+      const provider = getPaymentProviderBySlug(slug);
+      const target = await loadPaymentTarget(user.id, { orderId, checkoutId });
+
+      // A retried request returns the payment the first one started, whatever happened to the orders since
+      const idempotencyKey = req.get('Idempotency-Key');
+
+      if (idempotencyKey !== undefined && (idempotencyKey.length < 1 || idempotencyKey.length > 255)) {
+        throw ErrorUtil.createValidationError('Idempotency-Key', 'Idempotency key must be 1-255 characters');
+      }
+
+      const replay = idempotencyKey ? await findPaymentByIdempotencyKey(idempotencyKey, target) : null;
+
+      if (replay) {
+        res.json(
+          ResponseUtil.success(
+            `${provider.name} payment already created`,
+            toCreatedPayment(replay.transactions, replay.redirectUrl, target)
+          )
+        );
+        return;
+      }
+
+      if (target.orders[0].paymentMethod !== provider.method) {
+        throw ErrorUtil.createError(`This order is not paid with ${provider.name}`, 400, 'INVALID_PAYMENT_METHOD');
+      }
+
+      // Orders of a checkout that were paid, cancelled or rejected since are left out of the charge
+      const payableOrders = target.orders.filter(
+        (order) => !PAID_STATUSES.includes(order.paymentStatus) && !CLOSED_STATUSES.includes(order.status)
+      );
+
+      if (payableOrders.length === 0) {
+        if (target.orders.some((order) => PAID_STATUSES.includes(order.paymentStatus))) {
+          throw ErrorUtil.createError('This order has already been paid', 409, 'ALREADY_PAID');
+        }
+        throw ErrorUtil.createError('Cancelled or rejected orders cannot be paid', 400, 'ORDER_CLOSED');
+      }
+
+      const payment = { ...target, orders: payableOrders };
+      const { transactions, redirectUrl } = await initiatePayment(payment, user.id, idempotencyKey);
+
+      res.status(201).json(
+        ResponseUtil.success(
+          `${provider.name} payment created successfully`,
+          toCreatedPayment(transactions, redirectUrl, payment)
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Return point after the buyer approves, fails or cancels on the provider's payment page
+  async paymentCallback(req: Request, res: Response, next: NextFunction) {
+    try {
+      const provider = getPaymentProviderBySlug(req.params.provider);
+
+      const [settled] = await processCallback(provider, { ...req.query, ...req.body });
+
+      // A checkout payment settles all of its orders together, so the first one speaks for the rest
+      const checkout = settled.checkoutId
+        ? await prisma.checkout.findUnique({ where: { id: settled.checkoutId }, select: { checkoutNumber: true } })
+        : null;
+
+      const query = new URLSearchParams({
+        ...(checkout ? { checkoutNumber: checkout.checkoutNumber } : { orderNumber: settled.order.orderNumber }),
+        paymentStatus: settled.order.paymentStatus,
+      });
+
+      res.redirect(`${process.env.CLIENT_URL}/payments/${provider.slug}/result?${query.toString()}`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Confirm an approved payment for clients that handle the provider's redirect themselves (Buyer only)
+  async executePayment(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { provider: slug, paymentID } = req.validatedData;
+
+      const provider = getPaymentProviderBySlug(slug);
+      const transactions = await findPaymentTransactions(provider, paymentID);
+
+      if (transactions.length === 0) {
+        throw ErrorUtil.createNotFoundError('Payment');
+      }
+
+      if (transactions[0].order.buyerId !== req.user!.id) {
+        throw ErrorUtil.createForbiddenError('You can only pay for your own orders');
+      }
+
+      // Already captured or failed payments are not executed again
+      const settled = await capturePayment(provider, transactions, 'execute');
+
+      res.json(
+        ResponseUtil.success(`${provider.name} payment processed`, {
+          providerStatus: settled[0].providerStatus,
+          payment: toPaymentSummary(settled[0]),
+          payments: settled.map(toPaymentSummary),
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Check a payment with its provider and bring the order up to date (Buyer, store member or Admin)
+  async queryPayment(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { provider: slug, paymentID } = req.validatedData;
+      const user = req.user!;
+
+      const provider = getPaymentProviderBySlug(slug);
+      const transactions = await findPaymentTransactions(provider, paymentID);
+
+      if (transactions.length === 0) {
+        throw ErrorUtil.createNotFoundError('Payment');
+      }
+
+      const hasAccess = user.role === 'ADMIN' || transactions.some(({ order }) =>
+        order.buyerId === user.id || (!!user.storeId && order.storeId === user.storeId)
+      );
+
+      if (!hasAccess) {
+        throw ErrorUtil.createForbiddenError('You do not have access to this payment');
+      }
+
+      const state = await provider.query(paymentID);
+      const settled = await advancePayment(transactions, state, 'query');
+
+      // Store members only see their own store's orders of a checkout payment
+      const visible = user.role === 'ADMIN' || settled[0].order.buyerId === user.id
+        ? settled
+        : settled.filter(({ order }) => order.storeId === user.storeId);
+
+      res.json(
+        ResponseUtil.success(`${provider.name} payment status retrieved successfully`, {
+          providerStatus: state.providerStatus,
+          payment: toPaymentSummary(visible[0]),
+          payments: visible.map(toPaymentSummary),
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Every payment attempt for an order with its state history (Buyer, store member or Admin)
+  async getOrderPayments(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const order = req.resources!.order!;
+
+      const transactions = await prisma.paymentTransaction.findMany({
+        where: { orderId: order.id },
+        include: transactionInclude,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      res.json(
+        ResponseUtil.success('Payment transactions retrieved successfully', {
+          paymentMethod: order.paymentMethod,
+          paymentStatus: order.paymentStatus,
+          transactions,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Payment ledger across orders for support and finance (Manager, Accountant or Admin)
+  async getTransactions(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const {
+        page,
+        limit,
+        order,
+        storeId,
+        orderId,
+        provider,
+        status,
+        dateFrom,
+        dateTo,
+      } = req.validatedData;
+
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.PaymentTransactionWhereInput = {
+        order: getStoreScope(req, storeId),
+      };
+
+      if (orderId) where.orderId = orderId;
+      if (provider) where.provider = provider;
+      if (status) where.status = status;
+
+      if (dateFrom || dateTo) {
+        where.createdAt = {};
+        if (dateFrom) where.createdAt.gte = dateFrom;
+        if (dateTo) where.createdAt.lte = dateTo;
+      }
+
+      const [transactions, total] = await Promise.all([
+        prisma.paymentTransaction.findMany({
+          where,
+          include: {
+            ...transactionInclude,
+            order: {
+              select: { id: true, orderNumber: true, storeId: true, paymentStatus: true },
+            },
+          },
+          orderBy: { createdAt: order },
+          skip,
+          take: limit,
+        }),
+        prisma.paymentTransaction.count({ where }),
+      ]);
+
+      res.json(
+        ResponseUtil.success('Payment transactions retrieved successfully',
+          ResponseUtil.paginate(transactions, page, limit, total)
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,16 +1,24 @@
 import { Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { AuthenticatedRequest, ApiResponse, ProductFilter } from '../types';
 import { 
   ResponseUtil, 
   ErrorUtil, 
   ValidationUtil,
-  StringUtil,
-  PermissionUtil 
+  StringUtil
 } from '../utils';
+import { getRatingDistribution } from '../services/ratingService';
+import { getDescendantIds } from '../services/categoryService';
 
 const prisma = new PrismaClient();
 
+// Sellers must verify their email before their listings go live
+const assertCanPublish = (user: NonNullable<AuthenticatedRequest['user']>) => {
+  if (user.role === 'SELLER' && !user.emailVerified) {
+    throw ErrorUtil.createError('Verify your email address before publishing products', 403, 'EMAIL_NOT_VERIFIED');
+  }
+};
+
 export class ProductController {
   // Get all products with filtering and pagination
   async getProducts(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
@@ -23,7 +31,9 @@ export class ProductController {
         minPrice,
         maxPrice,
         sellerId,
+        storeId,
         inStock,
+        rating,
         isActive = true,
         sort = 'createdAt',
         order = 'desc',
@@ -40,12 +50,20 @@ export class ProductController {
       };
 
       if (category) {
-        where.category = {
-          OR: [
-            { slug: category },
-            { id: category },
-            { name: { contains: category, mode: 'insensitive' } },
-          ],
+        const matchedCategories = await prisma.category.findMany({
+          where: {
+            OR: [
+              { slug: category },
+              { id: category },
+              { name: { contains: category, mode: 'insensitive' } },
+            ],
+          },
+          select: { id: true },
+        });
+
+        // Include products from all subcategories of the matched categories
+        where.categoryId = {
+          in: await getDescendantIds(matchedCategories.map((matched) => matched.id)),
         };
       }
 
@@ -66,13 +84,21 @@ export class ProductController {
         where.sellerId = sellerId;
       }
 
+      if (storeId) {
+        where.storeId = storeId;
+      }
+
       if (inStock === 'true') {
         where.stock = { gt: 0 };
       }
 
+      if (rating) {
+        where.avgRating = { gte: parseFloat(rating) };
+      }
+
       // Build order by clause
       const orderBy: any = {};
-      orderBy[sort] = order;
+      orderBy[sort === 'rating' ? 'avgRating' : sort] = order;
 
       // Get products
       const [products, total] = await Promise.all([
@@ -82,6 +108,9 @@ export class ProductController {
             category: {
               select: { id: true, name: true, slug: true },
             },
+            store: {
+              select: { id: true, name: true, slug: true },
+            },
             seller: {
               select: { 
                 id: true, 
@@ -90,14 +119,8 @@ export class ProductController {
                 avatar: true 
               },
             },
-            reviews: {
-              select: {
-                rating: true,
-              },
-            },
             _count: {
               select: {
-                reviews: true,
                 orderItems: true,
               },
             },
@@ -109,21 +132,13 @@ export class ProductController {
         prisma.product.count({ where }),
       ]);
 
-      // Calculate average ratings
-      const productsWithRatings = products.map((product: any) => {
-        const avgRating = product.reviews.length > 0
-          ? product.reviews.reduce((sum: number, review: any) => sum + review.rating, 0) / product.reviews.length
-          : 0;
-        
-        const { reviews: _, ...productWithoutReviews } = product;
-        
-        return {
-          ...productWithoutReviews,
-          avgRating: Math.round(avgRating * 10) / 10,
-          totalReviews: product._count.reviews,
-          totalSales: product._count.orderItems,
-        };
-      });
+      // Ratings come from the stored aggregates
+      const productsWithRatings = products.map((product: any) => ({
+        ...product,
+        avgRating: Math.round(product.avgRating * 10) / 10,
+        totalReviews: product.reviewCount,
+        totalSales: product._count.orderItems,
+      }));
 
       const totalPages = Math.ceil(total / limit);
 
@@ -148,6 +163,9 @@ export class ProductController {
           category: {
             select: { id: true, name: true, slug: true },
           },
+          store: {
+            select: { id: true, name: true, slug: true, phone: true },
+          },
           seller: {
             select: { 
               id: true, 
@@ -168,7 +186,6 @@ export class ProductController {
           },
           _count: {
             select: {
-              reviews: true,
               orderItems: true,
             },
           },
@@ -179,15 +196,11 @@ export class ProductController {
         throw ErrorUtil.createNotFoundError('Product');
       }
 
-      // Calculate average rating
-      const avgRating = product.reviews.length > 0
-        ? product.reviews.reduce((sum: number, review: any) => sum + review.rating, 0) / product.reviews.length
-        : 0;
-
       const productWithRating = {
         ...product,
-        avgRating: Math.round(avgRating * 10) / 10,
-        totalReviews: product._count.reviews,
+        avgRating: Math.round(product.avgRating * 10) / 10,
+        totalReviews: product.reviewCount,
+        ratingDistribution: getRatingDistribution(product.ratingCounts),
         totalSales: product._count.orderItems,
       };
 
@@ -211,13 +224,35 @@ export class ProductController {
         images,
         video,
         isActive = true,
+        storeId: requestedStoreId,
       } = req.validatedData;
 
-      const userId = req.user!.id;
+      const user = req.user!;
+      const userId = user.id;
+
+      // Products are listed under the seller's store; admins act for the store they name, or their own
+      const storeId = user.role === 'ADMIN' ? requestedStoreId ?? user.storeId : user.storeId;
+
+      if (!storeId) {
+        if (user.role === 'ADMIN') {
+          throw ErrorUtil.createValidationError('storeId', 'Choose the store to list this product under');
+        }
+        throw ErrorUtil.createForbiddenError('You must belong to a store to list products');
+      }
+
+      if (user.role === 'ADMIN' && requestedStoreId) {
+        const store = await prisma.store.findUnique({
+          where: { id: requestedStoreId },
+          select: { id: true },
+        });
+
+        if (!store) {
+          throw ErrorUtil.createNotFoundError('Store');
+        }
+      }
 
-      // Check permission
-      if (!PermissionUtil.canManageProducts(req.user!.role, req.user!.sellerRole)) {
-        throw ErrorUtil.createForbiddenError('You do not have permission to manage products');
+      if (isActive) {
+        assertCanPublish(user);
       }
 
       // Verify category exists
@@ -243,6 +278,7 @@ export class ProductController {
           stock,
           sku,
           categoryId,
+          storeId,
           sellerId: userId,
           images,
           video,
@@ -268,55 +304,59 @@ export class ProductController {
     }
   }
 
-  // Update product (Seller only - own products)
+  // Update product (Seller only - own store products)
   async updateProduct(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
     try {
       const { id } = req.params;
-      const updateData = req.validatedData;
-      const userId = req.user!.id;
-
-      // Check permission
-      if (!PermissionUtil.canManageProducts(req.user!.role, req.user!.sellerRole)) {
-        throw ErrorUtil.createForbiddenError('You do not have permission to manage products');
-      }
+      const {
+        title,
+        description,
+        price,
+        discountPrice,
+        discountEndDate,
+        stock,
+        categoryId,
+        images,
+        video,
+        isActive,
+      } = req.validatedData;
 
-      // Get existing product
-      const existingProduct = await prisma.product.findUnique({
-        where: { id },
-        include: { category: true },
-      });
+      // Loaded and ownership-checked by requireResourceOwnership
+      const existingProduct = req.resources!.product!;
 
-      if (!existingProduct) {
-        throw ErrorUtil.createNotFoundError('Product');
+      if (isActive && !existingProduct.isActive) {
+        assertCanPublish(req.user!);
       }
 
-      // Check ownership (sellers can only update their own products)
-      if (req.user!.role === 'SELLER' && existingProduct.sellerId !== userId) {
-        throw ErrorUtil.createForbiddenError('You can only update your own products');
+      // The discount has to stay below whichever price the product ends up with
+      const newDiscountPrice = discountPrice !== undefined ? discountPrice : existingProduct.discountPrice;
+      if (newDiscountPrice != null && Number(newDiscountPrice) >= (price ?? Number(existingProduct.price))) {
+        throw ErrorUtil.createValidationError('discountPrice', 'Discount price must be less than regular price');
       }
 
+      const updateData: Prisma.ProductUpdateInput = {};
+
+      if (title !== undefined) updateData.title = ValidationUtil.sanitizeString(title);
+      if (description !== undefined) updateData.description = ValidationUtil.sanitizeString(description);
+      if (price !== undefined) updateData.price = price;
+      if (discountPrice !== undefined) updateData.discountPrice = discountPrice;
+      if (discountEndDate !== undefined) updateData.discountEndDate = discountEndDate;
+      if (stock !== undefined) updateData.stock = stock;
+      if (images !== undefined) updateData.images = images;
+      if (video !== undefined) updateData.video = video;
+      if (isActive !== undefined) updateData.isActive = isActive;
+
       // Validate category if being updated
-      if (updateData.categoryId && updateData.categoryId !== existingProduct.categoryId) {
+      if (categoryId && categoryId !== existingProduct.categoryId) {
         const category = await prisma.category.findUnique({
-          where: { id: updateData.categoryId },
+          where: { id: categoryId },
         });
 
         if (!category) {
           throw ErrorUtil.createNotFoundError('Category');
         }
-      }
-
-      // Sanitize string fields
-      if (updateData.title) {
-        updateData.title = ValidationUtil.sanitizeString(updateData.title);
-      }
-      if (updateData.description) {
-        updateData.description = ValidationUtil.sanitizeString(updateData.description);
-      }
 
-      // Handle discount end date
-      if (updateData.discountEndDate) {
-        updateData.discountEndDate = new Date(updateData.discountEndDate);
+        updateData.category = { connect: { id: categoryId } };
       }
 
       // Update product
@@ -343,30 +383,10 @@ export class ProductController {
     }
   }
 
-  // Delete product (Seller only - own products)
+  // Delete product (Seller only - own store products)
   async deleteProduct(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
     try {
       const { id } = req.params;
-      const userId = req.user!.id;
-
-      // Check permission
-      if (!PermissionUtil.canManageProducts(req.user!.role, req.user!.sellerRole)) {
-        throw ErrorUtil.createForbiddenError('You do not have permission to manage products');
-      }
-
-      // Get existing product
-      const existingProduct = await prisma.product.findUnique({
-        where: { id },
-      });
-
-      if (!existingProduct) {
-        throw ErrorUtil.createNotFoundError('Product');
-      }
-
-      // Check ownership (sellers can only delete their own products)
-      if (req.user!.role === 'SELLER' && existingProduct.sellerId !== userId) {
-        throw ErrorUtil.createForbiddenError('You can only delete your own products');
-      }
 
       // Check if product has orders
       const orderCount = await prisma.orderItem.count({
@@ -394,7 +414,7 @@ export class ProductController {
     }
   }
 
-  // Get seller's products
+  // Get products of the seller's store
   async getSellerProducts(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
     try {
       const {
@@ -409,11 +429,15 @@ export class ProductController {
       // Convert string parameters to numbers
       const page = parseInt(pageParam as string, 10) || 1;
       const limit = parseInt(limitParam as string, 10) || 10;
-      const sellerId = req.user!.id;
+      const storeId = req.user!.storeId;
       const skip = (page - 1) * limit;
 
+      if (!storeId) {
+        throw ErrorUtil.createForbiddenError('You are not a member of a store');
+      }
+
       // Build where clause
-      const where: any = { sellerId };
+      const where: any = { storeId };
 
       if (search) {
         where.OR = [
@@ -495,7 +519,7 @@ export class ProductController {
       }
 
       if (category) {
-        where.categoryId = category;
+        where.categoryId = { in: await getDescendantIds([category]) };
       }
 
       if (minPrice || maxPrice) {
@@ -504,6 +528,10 @@ export class ProductController {
         if (maxPrice) where.price.lte = parseFloat(maxPrice);
       }
 
+      if (rating) {
+        where.avgRating = { gte: parseFloat(rating) };
+      }
+
       // Build order by clause
       let orderBy: any = {};
       switch (sortBy) {
@@ -520,8 +548,7 @@ export class ProductController {
           orderBy = { orderItems: { _count: 'desc' } };
           break;
         case 'rating':
-          // This would require a computed field or subquery
-          orderBy = { createdAt: 'desc' }; // Fallback
+          orderBy = [{ avgRating: 'desc' }, { reviewCount: 'desc' }];
           break;
         default:
           orderBy = { createdAt: 'desc' };
@@ -535,6 +562,9 @@ export class ProductController {
             category: {
               select: { id: true, name: true, slug: true },
             },
+            store: {
+              select: { id: true, name: true, slug: true },
+            },
             seller: {
               select: { 
                 id: true, 
@@ -543,9 +573,6 @@ export class ProductController {
                 avatar: true 
               },
             },
-            reviews: {
-              select: { rating: true },
-            },
           },
           orderBy,
           skip,
@@ -554,29 +581,15 @@ export class ProductController {
         prisma.product.count({ where }),
       ]);
 
-      // Calculate average ratings and filter by rating if specified
-      let filteredProducts = products.map((product: any) => {
-        const avgRating = product.reviews.length > 0
-          ? product.reviews.reduce((sum: number, review: any) => sum + review.rating, 0) / product.reviews.length
-          : 0;
-        
-        const { reviews: _, ...productWithoutReviews } = product;
-        
-        return {
-          ...productWithoutReviews,
-          avgRating: Math.round(avgRating * 10) / 10,
-        };
-      });
-
-      if (rating) {
-        filteredProducts = filteredProducts.filter((product: any) => 
-          product.avgRating >= parseFloat(rating)
-        );
-      }
+      const productsWithRatings = products.map((product: any) => ({
+        ...product,
+        avgRating: Math.round(product.avgRating * 10) / 10,
+        totalReviews: product.reviewCount,
+      }));
 
       res.json(
         ResponseUtil.success('Search completed successfully', 
-          ResponseUtil.paginate(filteredProducts, page, limit, total)
+          ResponseUtil.paginate(productsWithRatings, page, limit, total)
         )
       );
     } catch (error) {
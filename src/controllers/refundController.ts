@@ -0,0 +1,73 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { ResponseUtil, ErrorUtil } from '../utils';
+import { issueRefund, resolveRefund, refundInclude } from '../services/refundService';
+
+const prisma = new PrismaClient();
+
+export class RefundController {
+  // Refund all or part of a paid order (Admin, or the store's Manager or Accountant)
+  async createRefund(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const order = req.resources!.order!;
+      const user = req.user!;
+
+      // Buyers own their orders too, but only the store or an admin hands money back
+      if (user.role !== 'ADMIN' && order.storeId !== user.storeId) {
+        throw ErrorUtil.createForbiddenError("You can only refund your store's orders");
+      }
+
+      const refund = await issueRefund(order.id, req.validatedData, user.id);
+
+      res.status(201).json(
+        ResponseUtil.success('Refund issued successfully', { refund })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Settle a refund left pending because the provider could not be reached (Admin, or the store's Manager or Accountant)
+  async resolveRefund(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const order = req.resources!.order!;
+      const user = req.user!;
+
+      if (user.role !== 'ADMIN' && order.storeId !== user.storeId) {
+        throw ErrorUtil.createForbiddenError("You can only refund your store's orders");
+      }
+
+      const refund = await resolveRefund(order.id, req.params.refundId, req.validatedData);
+
+      res.json(
+        ResponseUtil.success('Refund resolved successfully', { refund })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Refund history of an order (Buyer, store member or Admin)
+  async getRefunds(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const order = req.resources!.order!;
+
+      const refunds = await prisma.refund.findMany({
+        where: { orderId: order.id },
+        include: refundInclude,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      res.json(
+        ResponseUtil.success('Refunds retrieved successfully', {
+          refunds,
+          refundedAmount: order.refundedAmount,
+          paymentStatus: order.paymentStatus,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient, Prisma, PaymentStatus } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { ResponseUtil, ErrorUtil, ValidationUtil } from '../utils';
+import { refreshProductRating } from '../services/ratingService';
+
+const prisma = new PrismaClient();
+
+// A purchase only counts as verified while the buyer has paid for it and kept it
+const VERIFIED_PAYMENT_STATUSES: PaymentStatus[] = ['COMPLETED', 'PARTIALLY_REFUNDED'];
+
+const reviewInclude = {
+  user: {
+    select: { id: true, name: true, avatar: true },
+  },
+  product: {
+    select: { id: true, title: true },
+  },
+};
+
+export class ReviewController {
+  // List reviews with filtering and pagination
+  async getReviews(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const {
+        page,
+        limit,
+        sort = 'createdAt',
+        order,
+        rating,
+        productId,
+        userId,
+        verifiedOnly,
+      } = req.validatedData;
+
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.ReviewWhereInput = {};
+
+      if (productId) where.productId = productId;
+      if (userId) where.userId = userId;
+      if (rating) where.rating = rating;
+      if (verifiedOnly) where.isVerifiedPurchase = true;
+
+      const sortField = ['createdAt', 'rating'].includes(sort) ? sort : 'createdAt';
+
+      const [reviews, total] = await Promise.all([
+        prisma.review.findMany({
+          where,
+          include: reviewInclude,
+          orderBy: { [sortField]: order },
+          skip,
+          take: limit,
+        }),
+        prisma.review.count({ where }),
+      ]);
+
+      res.json(
+        ResponseUtil.success('Reviews retrieved successfully',
+          ResponseUtil.paginate(reviews, page, limit, total)
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a review (Buyer only - must have received the product)
+  async createReview(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { productId, rating, comment, images = [] } = req.validatedData;
+      const userId = req.user!.id;
+
+      const product = await prisma.product.findUnique({
+        where: { id: productId },
+        select: { id: true },
+      });
+
+      if (!product) {
+        throw ErrorUtil.createNotFoundError('Product');
+      }
+
+      // Only buyers with a delivered order for this product may review it
+      const purchase = await prisma.order.findFirst({
+        where: {
+          buyerId: userId,
+          status: 'COMPLETED',
+          items: { some: { productId } },
+        },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, paymentStatus: true },
+      });
+
+      if (!purchase) {
+        throw ErrorUtil.createForbiddenError('You can only review products from your completed orders');
+      }
+
+      const existingReview = await prisma.review.findUnique({
+        where: { productId_userId: { productId, userId } },
+      });
+
+      if (existingReview) {
+        throw ErrorUtil.createError('You have already reviewed this product', 409, 'DUPLICATE_REVIEW');
+      }
+
+      const review = await prisma.$transaction(async (tx) => {
+        const createdReview = await tx.review.create({
+          data: {
+            rating,
+            comment: comment ? ValidationUtil.sanitizeString(comment) : undefined,
+            images,
+            productId,
+            userId,
+            orderId: purchase.id,
+            isVerifiedPurchase: VERIFIED_PAYMENT_STATUSES.includes(purchase.paymentStatus),
+          },
+          include: reviewInclude,
+        });
+
+        await refreshProductRating(productId, tx);
+
+        return createdReview;
+      });
+
+      res.status(201).json(ResponseUtil.success('Review created successfully', { review }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update own review
+  async updateReview(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { rating, comment, images } = req.validatedData;
+
+      // Loaded and ownership-checked by requireResourceOwnership
+      const existingReview = req.resources!.review!;
+
+      const review = await prisma.$transaction(async (tx) => {
+        const updatedReview = await tx.review.update({
+          where: { id },
+          data: {
+            rating,
+            comment: comment !== undefined ? ValidationUtil.sanitizeString(comment) : undefined,
+            images,
+          },
+          include: reviewInclude,
+        });
+
+        if (rating !== undefined && rating !== existingReview.rating) {
+          await refreshProductRating(existingReview.productId, tx);
+        }
+
+        return updatedReview;
+      });
+
+      res.json(ResponseUtil.success('Review updated successfully', { review }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete review (owner or Admin)
+  async deleteReview(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      // Loaded and ownership-checked by requireResourceOwnership
+      const existingReview = req.resources!.review!;
+
+      await prisma.$transaction(async (tx) => {
+        await tx.review.delete({
+          where: { id },
+        });
+
+        await refreshProductRating(existingReview.productId, tx);
+      });
+
+      res.json(ResponseUtil.success('Review deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
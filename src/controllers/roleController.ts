@@ -0,0 +1,175 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse, PERMISSIONS } from '../types';
+import { ResponseUtil, ErrorUtil, ValidationUtil } from '../utils';
+
+const prisma = new PrismaClient();
+
+// Reject a role name that another custom role already uses
+const assertRoleNameAvailable = async (name: string, excludedId?: string) => {
+  const existingRole = await prisma.customRole.findUnique({
+    where: { name },
+    select: { id: true },
+  });
+
+  if (existingRole && existingRole.id !== excludedId) {
+    throw ErrorUtil.createError('A role with this name already exists', 409, 'ROLE_NAME_TAKEN');
+  }
+};
+
+export class RoleController {
+  // List every permission in the registry (Admin only)
+  async getPermissionRegistry(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      res.json(ResponseUtil.success('Permissions retrieved successfully', { permissions: PERMISSIONS }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List custom roles (Admin only)
+  async getRoles(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const roles = await prisma.customRole.findMany({
+        include: {
+          _count: {
+            select: { users: true },
+          },
+        },
+        orderBy: { name: 'asc' },
+      });
+
+      res.json(ResponseUtil.success('Roles retrieved successfully', { roles }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a custom role (Admin only)
+  async createRole(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { name, description, permissions } = req.validatedData;
+      const roleName = ValidationUtil.sanitizeString(name);
+
+      await assertRoleNameAvailable(roleName);
+
+      const role = await prisma.customRole.create({
+        data: {
+          name: roleName,
+          description: description ? ValidationUtil.sanitizeString(description) : null,
+          permissions: Array.from(new Set<string>(permissions)),
+        },
+      });
+
+      res.status(201).json(ResponseUtil.success('Role created successfully', { role }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a custom role; changes apply to assigned users on their next request (Admin only)
+  async updateRole(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { name, description, permissions } = req.validatedData;
+
+      const existingRole = await prisma.customRole.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!existingRole) {
+        throw ErrorUtil.createNotFoundError('Role');
+      }
+
+      const updateData: Prisma.CustomRoleUpdateInput = {};
+
+      if (name !== undefined) {
+        updateData.name = ValidationUtil.sanitizeString(name);
+        await assertRoleNameAvailable(updateData.name, id);
+      }
+      if (description !== undefined) updateData.description = ValidationUtil.sanitizeString(description);
+      if (permissions !== undefined) updateData.permissions = Array.from(new Set<string>(permissions));
+
+      const role = await prisma.customRole.update({
+        where: { id },
+        data: updateData,
+      });
+
+      res.json(ResponseUtil.success('Role updated successfully', { role }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a custom role; assigned users fall back to their built-in permissions (Admin only)
+  async deleteRole(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const deleted = await prisma.customRole.deleteMany({
+        where: { id },
+      });
+
+      if (deleted.count === 0) {
+        throw ErrorUtil.createNotFoundError('Role');
+      }
+
+      res.json(ResponseUtil.success('Role deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Assign or clear a user's custom role (Admin only)
+  async assignUserRole(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { customRoleId } = req.validatedData;
+
+      const existingUser = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, role: true },
+      });
+
+      if (!existingUser) {
+        throw ErrorUtil.createNotFoundError('User');
+      }
+
+      // Admins already hold every permission
+      if (existingUser.role === 'ADMIN') {
+        throw ErrorUtil.createError('Custom roles cannot be assigned to admin accounts', 400, 'INVALID_ROLE_ASSIGNMENT');
+      }
+
+      if (customRoleId) {
+        const role = await prisma.customRole.findUnique({
+          where: { id: customRoleId },
+          select: { id: true },
+        });
+
+        if (!role) {
+          throw ErrorUtil.createNotFoundError('Role');
+        }
+      }
+
+      const user = await prisma.user.update({
+        where: { id },
+        data: { customRoleId },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          sellerRole: true,
+          customRole: {
+            select: { id: true, name: true, permissions: true },
+          },
+        },
+      });
+
+      res.json(ResponseUtil.success('User role updated successfully', { user }));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
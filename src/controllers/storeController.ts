@@ -0,0 +1,262 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse, SellerRole } from '../types';
+import { ResponseUtil, ErrorUtil, ValidationUtil } from '../utils';
+import { disconnectUser } from '../services/socketService';
+import { createStoreInvitation, acceptStoreInvitation } from '../services/storeService';
+
+const prisma = new PrismaClient();
+
+// Staff fields shown to store members
+const memberSelect = {
+  id: true,
+  email: true,
+  name: true,
+  phone: true,
+  avatar: true,
+  sellerRole: true,
+  status: true,
+  createdAt: true,
+};
+
+// Store of the signed-in seller; admins and buyers have none
+const getMemberStoreId = (req: AuthenticatedRequest) => {
+  const storeId = req.user!.storeId;
+
+  if (!storeId) {
+    throw ErrorUtil.createForbiddenError('You are not a member of any store');
+  }
+
+  return storeId;
+};
+
+// Load a member of the given store or fail with 404
+const findStoreMember = async (storeId: string, userId: string) => {
+  const member = await prisma.user.findFirst({
+    where: { id: userId, storeId },
+    select: { id: true, sellerRole: true },
+  });
+
+  if (!member) {
+    throw ErrorUtil.createNotFoundError('Store member');
+  }
+
+  return member;
+};
+
+// A store must always keep at least one manager
+const assertManagerRemains = async (storeId: string, excludedUserId: string) => {
+  const otherManagers = await prisma.user.count({
+    where: {
+      storeId,
+      sellerRole: SellerRole.MANAGER,
+      id: { not: excludedUserId },
+    },
+  });
+
+  if (otherManagers === 0) {
+    throw ErrorUtil.createError('A store must keep at least one manager', 409, 'LAST_STORE_MANAGER');
+  }
+};
+
+export class StoreController {
+  // Get own store with its members
+  async getMyStore(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const storeId = getMemberStoreId(req);
+
+      const store = await prisma.store.findUnique({
+        where: { id: storeId },
+        include: {
+          members: {
+            select: memberSelect,
+            orderBy: { createdAt: 'asc' },
+          },
+          _count: {
+            select: { products: true, orders: true },
+          },
+        },
+      });
+
+      if (!store) {
+        throw ErrorUtil.createNotFoundError('Store');
+      }
+
+      res.json(ResponseUtil.success('Store retrieved successfully', { store }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update own store details (Manager only)
+  async updateMyStore(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const storeId = getMemberStoreId(req);
+      const { name, phone, address } = req.validatedData;
+
+      const updateData: Prisma.StoreUpdateInput = {};
+
+      if (name !== undefined) updateData.name = ValidationUtil.sanitizeString(name);
+      if (phone !== undefined) updateData.phone = phone;
+      if (address !== undefined) updateData.address = ValidationUtil.sanitizeString(address);
+
+      const store = await prisma.store.update({
+        where: { id: storeId },
+        data: updateData,
+      });
+
+      res.json(ResponseUtil.success('Store updated successfully', { store }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Change a member's seller role (Manager only)
+  async updateMemberRole(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const storeId = getMemberStoreId(req);
+      const { userId } = req.params;
+      const { sellerRole } = req.validatedData;
+
+      const member = await findStoreMember(storeId, userId);
+
+      if (member.sellerRole === SellerRole.MANAGER && sellerRole !== SellerRole.MANAGER) {
+        await assertManagerRemains(storeId, userId);
+      }
+
+      const updatedMember = await prisma.user.update({
+        where: { id: userId },
+        data: { sellerRole },
+        select: memberSelect,
+      });
+
+      res.json(ResponseUtil.success('Store member updated successfully', { member: updatedMember }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove a member from the store (Manager only)
+  async removeMember(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const storeId = getMemberStoreId(req);
+      const { userId } = req.params;
+
+      if (userId === req.user!.id) {
+        throw ErrorUtil.createForbiddenError('You cannot remove yourself from the store');
+      }
+
+      const member = await findStoreMember(storeId, userId);
+
+      if (member.sellerRole === SellerRole.MANAGER) {
+        await assertManagerRemains(storeId, userId);
+      }
+
+      // Former staff keep their account as a buyer
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          role: 'BUYER',
+          sellerRole: null,
+          storeId: null,
+        },
+      });
+
+      // Drop their socket rooms so store notifications stop immediately
+      disconnectUser(userId);
+
+      res.json(ResponseUtil.success('Store member removed successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List pending invitations (Manager only)
+  async getInvitations(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const storeId = getMemberStoreId(req);
+
+      const invitations = await prisma.storeInvitation.findMany({
+        where: {
+          storeId,
+          acceptedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        select: {
+          id: true,
+          email: true,
+          sellerRole: true,
+          expiresAt: true,
+          createdAt: true,
+          invitedBy: {
+            select: { id: true, name: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      res.json(ResponseUtil.success('Store invitations retrieved successfully', { invitations }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Invite staff by email (Manager only)
+  async inviteMember(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const storeId = getMemberStoreId(req);
+      const { email, sellerRole } = req.validatedData;
+
+      const store = await prisma.store.findUnique({
+        where: { id: storeId },
+        select: { id: true, name: true },
+      });
+
+      if (!store) {
+        throw ErrorUtil.createNotFoundError('Store');
+      }
+
+      const invitation = await createStoreInvitation(store, req.user!, email, sellerRole);
+
+      res.status(201).json(ResponseUtil.success('Invitation sent successfully', { invitation }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Withdraw a pending invitation (Manager only)
+  async revokeInvitation(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const storeId = getMemberStoreId(req);
+      const { id } = req.params;
+
+      const deleted = await prisma.storeInvitation.deleteMany({
+        where: { id, storeId, acceptedAt: null },
+      });
+
+      if (deleted.count === 0) {
+        throw ErrorUtil.createNotFoundError('Invitation');
+      }
+
+      res.json(ResponseUtil.success('Invitation revoked successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Join a store using an emailed invitation token
+  async acceptInvitation(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { token } = req.validatedData;
+
+      const store = await acceptStoreInvitation(req.user!, token);
+
+      // Reconnect so the socket joins the store room with the new role
+      disconnectUser(req.user!.id);
+
+      res.json(ResponseUtil.success('You have joined the store', { store }));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
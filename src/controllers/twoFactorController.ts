@@ -0,0 +1,226 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { ResponseUtil, ErrorUtil, PasswordUtil, TotpUtil } from '../utils';
+import {
+  isTwoFactorEligible,
+  isTwoFactorRequired,
+  generateRecoveryCodes,
+  verifySecondFactor
+} from '../services/twoFactorService';
+
+const prisma = new PrismaClient();
+
+export class TwoFactorController {
+  // Get two-factor status for the current user
+  async getStatus(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id, role, sellerRole } = req.user!;
+
+      const [user, recoveryCodesRemaining, required] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id },
+          select: { twoFactorEnabled: true },
+        }),
+        prisma.twoFactorRecoveryCode.count({
+          where: { userId: id, usedAt: null },
+        }),
+        isTwoFactorRequired(role, sellerRole),
+      ]);
+
+      res.json(
+        ResponseUtil.success('Two-factor status retrieved successfully', {
+          eligible: isTwoFactorEligible(role, sellerRole),
+          enabled: user?.twoFactorEnabled ?? false,
+          required,
+          recoveryCodesRemaining,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Start enrollment by generating a new secret and provisioning URI
+  async setup(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id, email, role, sellerRole } = req.user!;
+
+      if (!isTwoFactorEligible(role, sellerRole)) {
+        throw ErrorUtil.createForbiddenError('Two-factor authentication is only available to admins and seller managers');
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { twoFactorEnabled: true },
+      });
+
+      if (user?.twoFactorEnabled) {
+        throw ErrorUtil.createError('Two-factor authentication is already enabled', 409, 'TWO_FACTOR_ALREADY_ENABLED');
+      }
+
+      const secret = TotpUtil.generateSecret();
+
+      await prisma.user.update({
+        where: { id },
+        data: {
+          twoFactorSecret: secret,
+          twoFactorLastUsedStep: null,
+        },
+      });
+
+      res.json(
+        ResponseUtil.success('Scan the QR code with your authenticator app, then confirm with a code', {
+          secret,
+          otpauthUrl: TotpUtil.getProvisioningUri(secret, email),
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Confirm enrollment with a code from the authenticator app
+  async enable(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { code } = req.validatedData;
+      const userId = req.user!.id;
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorEnabled: true, twoFactorSecret: true },
+      });
+
+      if (user?.twoFactorEnabled) {
+        throw ErrorUtil.createError('Two-factor authentication is already enabled', 409, 'TWO_FACTOR_ALREADY_ENABLED');
+      }
+
+      if (!user?.twoFactorSecret) {
+        throw ErrorUtil.createError('Start two-factor setup first', 400, 'TWO_FACTOR_NOT_SET_UP');
+      }
+
+      const step = TotpUtil.verifyCode(user.twoFactorSecret, code);
+      if (step === null) {
+        throw ErrorUtil.createError('Invalid two-factor authentication code', 400, 'INVALID_TWO_FACTOR_CODE');
+      }
+
+      const recoveryCodes = await prisma.$transaction(async (tx) => {
+        await tx.user.update({
+          where: { id: userId },
+          data: {
+            twoFactorEnabled: true,
+            twoFactorLastUsedStep: step,
+          },
+        });
+
+        return generateRecoveryCodes(userId, tx);
+      });
+
+      res.json(
+        ResponseUtil.success('Two-factor authentication enabled. Store these recovery codes somewhere safe.', {
+          recoveryCodes,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Turn off two-factor authentication
+  async disable(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { password, code, recoveryCode } = req.validatedData;
+      const { id, role, sellerRole } = req.user!;
+
+      if (await isTwoFactorRequired(role, sellerRole)) {
+        throw ErrorUtil.createForbiddenError('Two-factor authentication is required for your role');
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { password: true, twoFactorEnabled: true },
+      });
+
+      if (!user?.twoFactorEnabled) {
+        throw ErrorUtil.createError('Two-factor authentication is not enabled', 400, 'TWO_FACTOR_NOT_ENABLED');
+      }
+
+      const isValidPassword = await PasswordUtil.comparePassword(password, user.password);
+      if (!isValidPassword) {
+        throw ErrorUtil.createUnauthorizedError('Password is incorrect');
+      }
+
+      const isValidFactor = await verifySecondFactor(id, { code, recoveryCode });
+      if (!isValidFactor) {
+        throw ErrorUtil.createError('Invalid two-factor authentication code', 400, 'INVALID_TWO_FACTOR_CODE');
+      }
+
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id },
+          data: {
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorLastUsedStep: null,
+          },
+        }),
+        prisma.twoFactorRecoveryCode.deleteMany({
+          where: { userId: id },
+        }),
+      ]);
+
+      res.json(ResponseUtil.success('Two-factor authentication disabled'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Replace all recovery codes
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { code } = req.validatedData;
+      const userId = req.user!.id;
+
+      const isValidFactor = await verifySecondFactor(userId, { code });
+      if (!isValidFactor) {
+        throw ErrorUtil.createError('Invalid two-factor authentication code', 400, 'INVALID_TWO_FACTOR_CODE');
+      }
+
+      const recoveryCodes = await generateRecoveryCodes(userId);
+
+      res.json(ResponseUtil.success('Recovery codes regenerated', { recoveryCodes }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List two-factor policies (Admin only)
+  async getPolicies(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const policies = await prisma.twoFactorPolicy.findMany({
+        orderBy: { role: 'asc' },
+      });
+
+      res.json(ResponseUtil.success('Two-factor policies retrieved successfully', { policies }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Require or relax two-factor authentication for a role (Admin only)
+  async updatePolicy(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { role, required } = req.validatedData;
+
+      const policy = await prisma.twoFactorPolicy.upsert({
+        where: { role },
+        create: { role, required },
+        update: { required },
+      });
+
+      res.json(ResponseUtil.success('Two-factor policy updated successfully', { policy }));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,439 @@
+import { Response, NextFunction } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse, UserFilter, UserRole, SellerRole } from '../types';
+import { ResponseUtil, ErrorUtil, ValidationUtil } from '../utils';
+import { disconnectUser } from '../services/socketService';
+import { uploadImage, deleteAsset } from '../services/uploadService';
+import { revokeAllSessions } from '../services/sessionService';
+import { unlockAccount } from '../services/loginProtectionService';
+
+const prisma = new PrismaClient();
+
+// Public user fields (never includes the password hash)
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  phone: true,
+  avatar: true,
+  role: true,
+  sellerRole: true,
+  storeId: true,
+  status: true,
+  statusReason: true,
+  statusChangedAt: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  businessName: true,
+  businessPhone: true,
+  businessAddress: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+// Profile fields only sellers may change
+const businessFields = ['businessName', 'businessPhone', 'businessAddress'] as const;
+
+export class UserController {
+  // Update own profile
+  async updateProfile(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id, role, sellerRole } = req.user!;
+      const { name, phone, ...business } = req.validatedData;
+
+      const updateData: Prisma.UserUpdateInput = {};
+
+      if (name !== undefined) updateData.name = ValidationUtil.sanitizeString(name);
+      if (phone !== undefined) updateData.phone = phone;
+
+      const requestedBusinessFields = businessFields.filter((field) => business[field] !== undefined);
+
+      if (requestedBusinessFields.length > 0) {
+        if (role !== UserRole.SELLER) {
+          throw ErrorUtil.createError('Business details can only be set on seller accounts', 400, 'INVALID_PROFILE_FIELDS');
+        }
+
+        // Staff accounts share the business identity managed by the store manager
+        if (sellerRole !== SellerRole.MANAGER) {
+          throw ErrorUtil.createForbiddenError('Only seller managers can update business details');
+        }
+
+        for (const field of requestedBusinessFields) {
+          updateData[field] = ValidationUtil.sanitizeString(business[field]);
+        }
+      }
+
+      const user = await prisma.user.update({
+        where: { id },
+        data: updateData,
+        select: userSelect,
+      });
+
+      res.json(ResponseUtil.success('Profile updated successfully', { user }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Upload or replace own avatar
+  async uploadAvatar(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const userId = req.user!.id;
+
+      if (!req.file) {
+        throw ErrorUtil.createValidationError('avatar', 'Avatar image is required');
+      }
+
+      const existingUser = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { avatarPublicId: true },
+      });
+
+      const image = await uploadImage(req.file, 'avatars');
+
+      const user = await prisma.user.update({
+        where: { id: userId },
+        data: {
+          avatar: image.secure_url,
+          avatarPublicId: image.public_id,
+        },
+        select: userSelect,
+      });
+
+      // Remove the replaced asset only after the new one is stored
+      if (existingUser?.avatarPublicId) {
+        await deleteAsset(existingUser.avatarPublicId);
+      }
+
+      res.json(ResponseUtil.success('Avatar updated successfully', { user }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove own avatar
+  async deleteAvatar(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const userId = req.user!.id;
+
+      const existingUser = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { avatarPublicId: true },
+      });
+
+      const user = await prisma.user.update({
+        where: { id: userId },
+        data: {
+          avatar: null,
+          avatarPublicId: null,
+        },
+        select: userSelect,
+      });
+
+      if (existingUser?.avatarPublicId) {
+        await deleteAsset(existingUser.avatarPublicId);
+      }
+
+      res.json(ResponseUtil.success('Avatar removed successfully', { user }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List users with filtering and pagination (Admin only)
+  async getUsers(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const {
+        page,
+        limit,
+        sort = 'createdAt',
+        order,
+        role,
+        status,
+        search,
+      } = req.validatedData as UserFilter;
+
+      const skip = (page! - 1) * limit!;
+
+      const where: Prisma.UserWhereInput = {};
+
+      if (role) where.role = role;
+      if (status) where.status = status;
+
+      if (search) {
+        where.OR = [
+          { name: { contains: search, mode: 'insensitive' } },
+          { email: { contains: search, mode: 'insensitive' } },
+          { phone: { contains: search } },
+          { businessName: { contains: search, mode: 'insensitive' } },
+        ];
+      }
+
+      const sortField = ['createdAt', 'name', 'email', 'status'].includes(sort) ? sort : 'createdAt';
+
+      const [users, total] = await Promise.all([
+        prisma.user.findMany({
+          where,
+          select: {
+            ...userSelect,
+            _count: {
+              select: { orders: true, sellerOrders: true, products: true },
+            },
+          },
+          orderBy: { [sortField]: order },
+          skip,
+          take: limit,
+        }),
+        prisma.user.count({ where }),
+      ]);
+
+      res.json(
+        ResponseUtil.success('Users retrieved successfully',
+          ResponseUtil.paginate(users, page!, limit!, total)
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get single user (Admin only)
+  async getUser(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: {
+          ...userSelect,
+          _count: {
+            select: {
+              orders: true,
+              sellerOrders: true,
+              products: true,
+              reviews: true,
+              sessions: true,
+            },
+          },
+        },
+      });
+
+      if (!user) {
+        throw ErrorUtil.createNotFoundError('User');
+      }
+
+      res.json(ResponseUtil.success('User retrieved successfully', { user }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get orders a user placed or received (Admin only)
+  async getUserOrders(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { page, limit, order } = req.validatedData;
+      const skip = (page - 1) * limit;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, storeId: true },
+      });
+
+      if (!user) {
+        throw ErrorUtil.createNotFoundError('User');
+      }
+
+      // Store members received their store's orders, whoever listed the products
+      const where: Prisma.OrderWhereInput = {
+        OR: [{ buyerId: id }, user.storeId ? { storeId: user.storeId } : { sellerId: id }],
+      };
+
+      const [orders, total] = await Promise.all([
+        prisma.order.findMany({
+          where,
+          include: {
+            buyer: {
+              select: { id: true, name: true, email: true },
+            },
+            seller: {
+              select: { id: true, name: true, businessName: true },
+            },
+            _count: {
+              select: { items: true },
+            },
+          },
+          orderBy: { createdAt: order },
+          skip,
+          take: limit,
+        }),
+        prisma.order.count({ where }),
+      ]);
+
+      res.json(
+        ResponseUtil.success('User orders retrieved successfully',
+          ResponseUtil.paginate(orders, page, limit, total)
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get products of a seller's store (Admin only)
+  async getUserProducts(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { page, limit, order } = req.validatedData;
+      const skip = (page - 1) * limit;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, storeId: true },
+      });
+
+      if (!user) {
+        throw ErrorUtil.createNotFoundError('User');
+      }
+
+      // Store members share their store's catalogue
+      const where: Prisma.ProductWhereInput = user.storeId ? { storeId: user.storeId } : { sellerId: id };
+
+      const [products, total] = await Promise.all([
+        prisma.product.findMany({
+          where,
+          include: {
+            category: {
+              select: { id: true, name: true, slug: true },
+            },
+            _count: {
+              select: { orderItems: true },
+            },
+          },
+          orderBy: { createdAt: order },
+          skip,
+          take: limit,
+        }),
+        prisma.product.count({ where }),
+      ]);
+
+      res.json(
+        ResponseUtil.success('User products retrieved successfully',
+          ResponseUtil.paginate(products, page, limit, total)
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get sign-in attempts recorded for a user (Admin only)
+  async getUserLoginAttempts(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { page, limit, order } = req.validatedData;
+      const skip = (page - 1) * limit;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!user) {
+        throw ErrorUtil.createNotFoundError('User');
+      }
+
+      const [attempts, total] = await Promise.all([
+        prisma.loginAttempt.findMany({
+          where: { userId: id },
+          orderBy: { createdAt: order },
+          skip,
+          take: limit,
+        }),
+        prisma.loginAttempt.count({ where: { userId: id } }),
+      ]);
+
+      res.json(
+        ResponseUtil.success('Login attempts retrieved successfully',
+          ResponseUtil.paginate(attempts, page, limit, total)
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Lift a brute-force lockout (Admin only)
+  async unlockUser(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const existingUser = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!existingUser) {
+        throw ErrorUtil.createNotFoundError('User');
+      }
+
+      const user = await unlockAccount(id);
+
+      res.json(ResponseUtil.success('User account unlocked successfully', { user }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Suspend, ban or reactivate a user (Admin only)
+  async updateUserStatus(req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { status, reason } = req.validatedData;
+
+      if (id === req.user!.id) {
+        throw ErrorUtil.createForbiddenError('You cannot change your own account status');
+      }
+
+      const existingUser = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, role: true },
+      });
+
+      if (!existingUser) {
+        throw ErrorUtil.createNotFoundError('User');
+      }
+
+      if (existingUser.role === 'ADMIN') {
+        throw ErrorUtil.createForbiddenError('Admin accounts cannot be moderated');
+      }
+
+      const user = await prisma.$transaction(async (tx) => {
+        const updatedUser = await tx.user.update({
+          where: { id },
+          data: {
+            status,
+            statusReason: reason ?? null,
+            statusChangedAt: new Date(),
+          },
+          select: userSelect,
+        });
+
+        // Suspended or banned users lose every session
+        if (status !== 'ACTIVE') {
+          await revokeAllSessions(id, tx);
+        }
+
+        return updatedUser;
+      });
+
+      if (status !== 'ACTIVE') {
+        disconnectUser(id);
+      }
+
+      res.json(ResponseUtil.success('User status updated successfully', { user }));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -15,9 +15,12 @@ import userRoutes from './routes/users';
 import productRoutes from './routes/products';
 import categoryRoutes from './routes/categories';
 import orderRoutes from './routes/orders';
+import cartRoutes from './routes/cart';
+import reviewRoutes from './routes/reviews';
 import adminRoutes from './routes/admin';
 import uploadRoutes from './routes/upload';
 import paymentRoutes from './routes/payments';
+import storeRoutes from './routes/stores';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
@@ -26,6 +29,7 @@ import { socketAuth } from './middleware/socketAuth';
 
 // Import services
 import { setupSocketHandlers } from './services/socketService';
+import { startPaymentReconciliation } from './services/paymentReconciliationService';
 
 // Load environment variables
 dotenv.config();
@@ -103,7 +107,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Cookie'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Cookie', 'X-Guest-Cart-Token'],
 }));
 
 // General middleware
@@ -132,9 +136,12 @@ app.use('/api/users', userRoutes);
 app.use('/api/products', productRoutes);
 app.use('/api/categories', categoryRoutes);
 app.use('/api/orders', orderRoutes);
+app.use('/api/cart', cartRoutes);
+app.use('/api/reviews', reviewRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/payments', paymentRoutes);
+app.use('/api/stores', storeRoutes);
 
 // API info endpoint
 app.get('/api', (req, res) => {
@@ -149,9 +156,12 @@ app.get('/api', (req, res) => {
       products: '/api/products',
       categories: '/api/categories',
       orders: '/api/orders',
+      cart: '/api/cart',
+      reviews: '/api/reviews',
       admin: '/api/admin',
       upload: '/api/upload',
       payments: '/api/payments',
+      stores: '/api/stores',
     },
     features: [
       'JWT Authentication with Refresh Tokens',
@@ -175,6 +185,9 @@ app.use(errorHandler);
 // Start server
 const PORT = process.env.PORT || 5000;
 
+// Background jobs
+const scheduler = startPaymentReconciliation();
+
 server.listen(PORT, () => {
   console.log('\n🚀 Server is running!');
   console.log(`📍 Port: ${PORT}`);
@@ -188,15 +201,19 @@ server.listen(PORT, () => {
   console.log('- Products: /api/products');
   console.log('- Categories: /api/categories');
   console.log('- Orders: /api/orders');
+  console.log('- Cart: /api/cart');
+  console.log('- Reviews: /api/reviews');
   console.log('- Admin: /api/admin');
   console.log('- Upload: /api/upload');
   console.log('- Payments: /api/payments');
+  console.log('- Stores: /api/stores');
   console.log('\n✨ Features enabled:');
   console.log('- JWT Auth with Refresh Tokens');
   console.log('- Role-based Access Control');
   console.log('- Real-time WebSocket Updates');
   console.log('- File Upload (Cloudinary)');
   console.log('- Bkash Payment Gateway');
+  console.log('- Payment Reconciliation Job');
   console.log('- Email Notifications');
   console.log('- Rate Limiting & Security');
 });
@@ -204,6 +221,7 @@ server.listen(PORT, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('\n🛑 SIGTERM received, shutting down gracefully...');
+  scheduler.stop();
   server.close(() => {
     console.log('✅ Process terminated');
   });
@@ -211,6 +229,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('\n🛑 SIGINT received, shutting down gracefully...');
+  scheduler.stop();
   server.close(() => {
     console.log('✅ Process terminated');
   });
@@ -1,12 +1,27 @@
 import { Response, NextFunction } from 'express';
-import { AuthenticatedRequest, UserRole, SellerRole } from '../types';
+import { AuthenticatedRequest, UserRole, SellerRole, Permission, OwnedModel, OwnedResources } from '../types';
 import { JWTUtil, ErrorUtil, PermissionUtil } from '../utils';
 import { PrismaClient } from '@prisma/client';
+import { isTwoFactorRequired } from '../services/twoFactorService';
 
 const prisma = new PrismaClient();
 
-// Authentication middleware
-export const authenticate = async (
+// Access tokens stay valid until they expire, so the login session they belong to is checked on every request
+const isSessionActive = async (userId: string, sessionId?: string) => {
+  if (!sessionId) {
+    return false;
+  }
+
+  const session = await prisma.session.findFirst({
+    where: { id: sessionId, userId },
+    select: { id: true },
+  });
+
+  return session !== null;
+};
+
+// Authentication middleware factory
+const createAuthenticate = (enforceTwoFactorPolicy: boolean) => async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
@@ -41,7 +56,13 @@ export const authenticate = async (
         name: true,
         role: true,
         sellerRole: true,
+        storeId: true,
         status: true,
+        emailVerified: true,
+        twoFactorEnabled: true,
+        customRole: {
+          select: { permissions: true },
+        },
       },
     });
 
@@ -53,14 +74,35 @@ export const authenticate = async (
       throw ErrorUtil.createUnauthorizedError('Account is suspended or banned');
     }
 
-    // Attach user to request
-    req.user = user;
+    // Signed-out or revoked sessions lose access straight away
+    if (!await isSessionActive(user.id, decoded.sessionId)) {
+      throw ErrorUtil.createUnauthorizedError('Session has expired or was signed out');
+    }
+
+    // Accounts the policy requires to use 2FA may only reach the enrollment endpoints
+    const { twoFactorEnabled, customRole, ...requestUser } = user;
+    if (enforceTwoFactorPolicy && !twoFactorEnabled && await isTwoFactorRequired(user.role, user.sellerRole)) {
+      throw ErrorUtil.createError('Two-factor authentication must be enabled for this account', 403, 'TWO_FACTOR_SETUP_REQUIRED');
+    }
+
+    // Attach user and the login session to request
+    req.user = {
+      ...requestUser,
+      permissions: PermissionUtil.resolvePermissions(user.role, user.sellerRole, customRole?.permissions),
+    };
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     next(error);
   }
 };
 
+// Authentication middleware
+export const authenticate = createAuthenticate(true);
+
+// Authentication for the 2FA enrollment endpoints, reachable before the policy is satisfied
+export const authenticateForTwoFactorSetup = createAuthenticate(false);
+
 // Optional authentication middleware (doesn't throw error if no token)
 export const optionalAuth = async (
   req: AuthenticatedRequest,
@@ -95,12 +137,21 @@ export const optionalAuth = async (
             name: true,
             role: true,
             sellerRole: true,
+            storeId: true,
             status: true,
+            emailVerified: true,
+            customRole: {
+              select: { permissions: true },
+            },
           },
         });
 
-        if (user && user.status === 'ACTIVE') {
-          req.user = user;
+        if (user && user.status === 'ACTIVE' && await isSessionActive(user.id, decoded.sessionId)) {
+          const { customRole, ...requestUser } = user;
+          req.user = {
+            ...requestUser,
+            permissions: PermissionUtil.resolvePermissions(user.role, user.sellerRole, customRole?.permissions),
+          };
         }
       } catch (error) {
         // Ignore token errors for optional auth
@@ -160,17 +211,15 @@ export const authorizeSellerRole = (...allowedSellerRoles: SellerRole[]) => {
   };
 };
 
-// Permission-based middleware
-export const requirePermission = (permissionCheck: (role: UserRole, sellerRole?: SellerRole | null) => boolean) => {
+// Permission-based middleware; every listed permission is required
+export const requirePermission = (...permissions: Permission[]) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
         throw ErrorUtil.createUnauthorizedError('Authentication required');
       }
 
-      const hasPermission = permissionCheck(req.user.role, req.user.sellerRole);
-      
-      if (!hasPermission) {
+      if (!PermissionUtil.hasPermission(req.user.permissions, ...permissions)) {
         throw ErrorUtil.createForbiddenError('Permission denied');
       }
 
@@ -199,15 +248,6 @@ export const managerOrAccountant = authorizeSellerRole(SellerRole.MANAGER, Selle
 // Manager or Inventory middleware
 export const managerOrInventory = authorizeSellerRole(SellerRole.MANAGER, SellerRole.INVENTORY_STAFF);
 
-// Product management permission middleware
-export const canManageProducts = requirePermission(PermissionUtil.canManageProducts);
-
-// Order management permission middleware
-export const canManageOrders = requirePermission(PermissionUtil.canManageOrders);
-
-// Financial access permission middleware
-export const canViewFinancials = requirePermission(PermissionUtil.canViewFinancials);
-
 // Resource ownership middleware (for users to access their own resources)
 export const requireOwnership = (resourceIdParam: string = 'id', allowAdminAccess: boolean = true) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -235,34 +275,53 @@ export const requireOwnership = (resourceIdParam: string = 'id', allowAdminAcces
   };
 };
 
-// Seller ownership middleware (for sellers to access their own products/orders)
-export const requireSellerOwnership = (resourceField: string = 'sellerId') => {
+// How each guarded model records its owner: a seller store, a user, or both
+const ownershipRules: Record<OwnedModel, { label: string; storeField?: string; userField?: string }> = {
+  product: { label: 'Product', storeField: 'storeId' },
+  order: { label: 'Order', storeField: 'storeId', userField: 'buyerId' },
+  review: { label: 'Review', userField: 'userId' },
+};
+
+const resourceLoaders: { [M in OwnedModel]: (id: string) => Promise<OwnedResources[M] | null> } = {
+  product: (id) => prisma.product.findUnique({ where: { id } }),
+  order: (id) => prisma.order.findUnique({ where: { id }, include: { items: true } }),
+  review: (id) => prisma.review.findUnique({ where: { id } }),
+};
+
+// Resource ownership middleware: loads the entity, answers 404 when it is missing and 403
+// when it belongs to another store or user, then attaches it as req.resources[model]
+export const requireResourceOwnership = (
+  model: OwnedModel,
+  options: { param?: string; allowAdminAccess?: boolean } = {}
+) => {
+  const { param = 'id', allowAdminAccess = true } = options;
+  const rule = ownershipRules[model];
+
   return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
         throw ErrorUtil.createUnauthorizedError('Authentication required');
       }
 
-      // Admin bypass
-      if (req.user.role === UserRole.ADMIN) {
-        return next();
-      }
+      const resource = await resourceLoaders[model](req.params[param]);
 
-      // Only sellers can use this middleware
-      if (req.user.role !== UserRole.SELLER) {
-        throw ErrorUtil.createForbiddenError('Seller access required');
+      if (!resource) {
+        throw ErrorUtil.createNotFoundError(rule.label);
       }
 
-      // The actual ownership check will be done in the controller
-      // as it requires database access to check the resource
-      req.body._requireSellerOwnership = {
-        sellerId: req.user.id,
-        field: resourceField,
-      };
+      const owner = resource as unknown as Record<string, unknown>;
+      const isAdmin = allowAdminAccess && req.user.role === UserRole.ADMIN;
+      const isStoreOwner = !!rule.storeField && !!req.user.storeId && owner[rule.storeField] === req.user.storeId;
+      const isUserOwner = !!rule.userField && owner[rule.userField] === req.user.id;
 
+      if (!isAdmin && !isStoreOwner && !isUserOwner) {
+        throw ErrorUtil.createForbiddenError(`You do not have access to this ${rule.label.toLowerCase()}`);
+      }
+
+      req.resources = { ...req.resources, [model]: resource };
       next();
     } catch (error) {
       next(error);
     }
   };
-};
\ No newline at end of file
+};
@@ -24,6 +24,7 @@ export const socketAuth = async (socket: Socket, next: Function) => {
         name: true,
         role: true,
         sellerRole: true,
+        storeId: true,
         status: true,
       },
     });
@@ -45,6 +46,9 @@ export const socketAuth = async (socket: Socket, next: Function) => {
     // Join seller-specific rooms if applicable
     if (user.role === 'SELLER') {
       socket.join('sellers');
+      if (user.storeId) {
+        socket.join(`store_${user.storeId}`);
+      }
       if (user.sellerRole) {
         socket.join(`seller_${user.sellerRole.toLowerCase()}`);
       }
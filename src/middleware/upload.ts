@@ -0,0 +1,16 @@
+import multer from 'multer';
+import { FileUtil, ErrorUtil } from '../utils';
+
+const maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '10485760');
+
+// Keep uploads in memory; they are streamed straight to Cloudinary
+export const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: maxFileSize },
+  fileFilter: (req, file, cb) => {
+    if (!file.mimetype.startsWith('image/') || !FileUtil.isImageFile(file.originalname)) {
+      return cb(ErrorUtil.createError('Only image files are allowed', 400, 'INVALID_FILE_TYPE'));
+    }
+    cb(null, true);
+  },
+});
@@ -0,0 +1,141 @@
+import express from 'express';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createBkashMockApp } from './bkashMockServer';
+import {
+  getGrantToken,
+  clearGrantToken,
+  createPayment,
+  executePayment,
+  queryPayment,
+} from '../services/bkashService';
+
+const TOKEN_TTL_SECONDS = 3600;
+
+let server: Server;
+// Paths the service called on the mock, in order
+let calls: string[] = [];
+
+beforeAll(async () => {
+  const app = express();
+  app.use((req, res, next) => {
+    calls.push(req.path);
+    next();
+  });
+
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  app.use(createBkashMockApp({ baseUrl, tokenTtlSeconds: TOKEN_TTL_SECONDS }));
+
+  process.env.BKASH_BASE_URL = baseUrl;
+  process.env.BKASH_APP_KEY = 'test-app-key';
+  process.env.BKASH_APP_SECRET = 'test-app-secret';
+  process.env.BKASH_USERNAME = 'test-user';
+  process.env.BKASH_PASSWORD = 'test-password';
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  clearGrantToken();
+  calls = [];
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('bKash grant token', () => {
+  it('is granted once and reused while valid', async () => {
+    const first = await getGrantToken();
+    const second = await getGrantToken();
+
+    expect(second).toBe(first);
+    expect(calls).toEqual(['/tokenized/checkout/token/grant']);
+  });
+
+  it('is shared by concurrent requests', async () => {
+    const [first, second] = await Promise.all([getGrantToken(), getGrantToken()]);
+
+    expect(second).toBe(first);
+    expect(calls).toEqual(['/tokenized/checkout/token/grant']);
+  });
+
+  it('is refreshed with the refresh token once it expires', async () => {
+    const first = await getGrantToken();
+
+    const later = Date.now() + TOKEN_TTL_SECONDS * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+
+    const refreshed = await getGrantToken();
+
+    expect(refreshed).not.toBe(first);
+    expect(calls).toEqual(['/tokenized/checkout/token/grant', '/tokenized/checkout/token/refresh']);
+  });
+});
+
+describe('bKash checkout', () => {
+  const callbackURL = 'http://merchant.test/api/payments/bkash/callback';
+
+  const approve = async (bkashURL: string, outcome?: string) => {
+    const response = await axios.get(bkashURL, {
+      params: outcome ? { outcome } : undefined,
+      maxRedirects: 0,
+      validateStatus: (status) => status === 302,
+    });
+
+    return new URL(response.headers.location);
+  };
+
+  it('creates, approves, executes and queries a payment', async () => {
+    const payment = await createPayment(
+      { amount: 1250, orderNumber: 'ORD-1001', intent: 'sale' },
+      { callbackURL, payerReference: '01770618575' }
+    );
+
+    expect(payment.transactionStatus).toBe('Initiated');
+    expect(payment.amount).toBe('1250.00');
+
+    const callback = await approve(payment.bkashURL);
+
+    expect(`${callback.origin}${callback.pathname}`).toBe(callbackURL);
+    expect(callback.searchParams.get('paymentID')).toBe(payment.paymentID);
+    expect(callback.searchParams.get('status')).toBe('success');
+
+    // Approval alone does not complete the payment
+    await expect(queryPayment(payment.paymentID)).resolves.toMatchObject({ transactionStatus: 'Initiated' });
+
+    const executed = await executePayment(payment.paymentID);
+
+    expect(executed.transactionStatus).toBe('Completed');
+    expect(executed.trxID).toBeTruthy();
+
+    await expect(queryPayment(payment.paymentID)).resolves.toMatchObject({
+      paymentID: payment.paymentID,
+      transactionStatus: 'Completed',
+      trxID: executed.trxID,
+    });
+
+    await expect(executePayment(payment.paymentID)).rejects.toMatchObject({ code: 'BKASH_ERROR' });
+    expect(calls.filter((path) => path === '/tokenized/checkout/token/grant')).toHaveLength(1);
+  });
+
+  it('refuses to execute a cancelled payment', async () => {
+    const payment = await createPayment(
+      { amount: 300, orderNumber: 'ORD-1002', intent: 'sale' },
+      { callbackURL, payerReference: '01770618575' }
+    );
+
+    const callback = await approve(payment.bkashURL, 'cancel');
+
+    expect(callback.searchParams.get('status')).toBe('cancel');
+    await expect(executePayment(payment.paymentID)).rejects.toMatchObject({ code: 'BKASH_ERROR' });
+    await expect(queryPayment(payment.paymentID)).resolves.toMatchObject({ transactionStatus: 'Cancelled' });
+  });
+});
@@ -0,0 +1,235 @@
+import express, { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+// In-memory stand-in for the bKash tokenized checkout API, for local development and tests.
+// Point BKASH_BASE_URL at it and open the returned bkashURL to approve a payment; add
+// ?outcome=failure or ?outcome=cancel to the URL to simulate the other results.
+
+interface MockPayment {
+  paymentID: string;
+  amount: string;
+  currency: string;
+  intent: string;
+  mode: string;
+  merchantInvoiceNumber: string;
+  payerReference: string;
+  callbackURL: string;
+  transactionStatus: 'Initiated' | 'Completed' | 'Failed' | 'Cancelled';
+  approved: boolean;
+  trxID?: string;
+  paymentCreateTime: string;
+  paymentExecuteTime?: string;
+  refundedCents: number;
+}
+
+const randomId = (bytes: number) => crypto.randomBytes(bytes).toString('hex').toUpperCase();
+
+export const createBkashMockApp = (options: { baseUrl: string; tokenTtlSeconds?: number }) => {
+  const app = express();
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+
+  const idTokens = new Map<string, number>(); // token -> expiry time
+  const refreshTokens = new Set<string>();
+  const payments = new Map<string, MockPayment>();
+
+  const issueToken = (res: Response) => {
+    const idToken = `mock-id-${randomId(16)}`;
+    const refreshToken = `mock-refresh-${randomId(16)}`;
+
+    idTokens.set(idToken, Date.now() + tokenTtlSeconds * 1000);
+    refreshTokens.add(refreshToken);
+
+    res.json({
+      statusCode: '0000',
+      statusMessage: 'Successful',
+      id_token: idToken,
+      token_type: 'Bearer',
+      expires_in: tokenTtlSeconds,
+      refresh_token: refreshToken,
+    });
+  };
+
+  const requireCredentials = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.get('username') || !req.get('password') || !req.body.app_key || !req.body.app_secret) {
+      res.status(401).json({ statusCode: '2001', statusMessage: 'Invalid App Key' });
+      return;
+    }
+    next();
+  };
+
+  const requireToken = (req: Request, res: Response, next: NextFunction) => {
+    const expiresAt = idTokens.get(req.get('Authorization') || '');
+
+    if (!expiresAt || expiresAt < Date.now() || !req.get('X-APP-Key')) {
+      res.status(401).json({ message: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+
+  const findPayment = (req: Request, res: Response) => {
+    const payment = payments.get(req.body.paymentID);
+
+    if (!payment) {
+      res.json({ statusCode: '2056', statusMessage: 'Invalid Payment State' });
+    }
+    return payment;
+  };
+
+  const toStatus = (payment: MockPayment) => {
+    const { approved, callbackURL, refundedCents, ...status } = payment;
+    return { statusCode: '0000', statusMessage: 'Successful', ...status };
+  };
+
+  app.use(express.json());
+
+  app.post('/tokenized/checkout/token/grant', requireCredentials, (req, res) => issueToken(res));
+
+  app.post('/tokenized/checkout/token/refresh', requireCredentials, (req, res) => {
+    if (!refreshTokens.has(req.body.refresh_token)) {
+      res.status(401).json({ statusCode: '2079', statusMessage: 'Invalid refresh token' });
+      return;
+    }
+    issueToken(res);
+  });
+
+  app.post('/tokenized/checkout/create', requireToken, (req, res) => {
+    const { amount, currency, intent, mode, merchantInvoiceNumber, payerReference, callbackURL } = req.body;
+
+    if (!amount || Number(amount) <= 0 || !callbackURL) {
+      res.json({ statusCode: '2065', statusMessage: 'Mandatory field missing' });
+      return;
+    }
+
+    const payment: MockPayment = {
+      paymentID: `TR0011${randomId(10)}`,
+      amount: String(amount),
+      currency: currency || 'BDT',
+      intent: intent || 'sale',
+      mode: mode || '0011',
+      merchantInvoiceNumber,
+      payerReference,
+      callbackURL,
+      transactionStatus: 'Initiated',
+      approved: false,
+      paymentCreateTime: new Date().toISOString(),
+      refundedCents: 0,
+    };
+
+    payments.set(payment.paymentID, payment);
+
+    res.json({
+      ...toStatus(payment),
+      bkashURL: `${options.baseUrl}/checkout/${payment.paymentID}`,
+      callbackURL,
+      successCallbackURL: `${callbackURL}?paymentID=${payment.paymentID}&status=success`,
+      failureCallbackURL: `${callbackURL}?paymentID=${payment.paymentID}&status=failure`,
+      cancelledCallbackURL: `${callbackURL}?paymentID=${payment.paymentID}&status=cancel`,
+    });
+  });
+
+  // Payment page: the buyer's decision is simulated and the browser is sent to the merchant callback
+  app.get('/checkout/:paymentID', (req, res) => {
+    const payment = payments.get(req.params.paymentID);
+
+    if (!payment) {
+      res.status(404).send('Payment not found');
+      return;
+    }
+
+    const outcome = ['failure', 'cancel'].includes(String(req.query.outcome)) ? String(req.query.outcome) : 'success';
+
+    if (payment.transactionStatus === 'Initiated') {
+      if (outcome === 'success') payment.approved = true;
+      if (outcome === 'failure') payment.transactionStatus = 'Failed';
+      if (outcome === 'cancel') payment.transactionStatus = 'Cancelled';
+    }
+
+    const query = new URLSearchParams({
+      paymentID: payment.paymentID,
+      status: outcome,
+      signature: randomId(8),
+      apiVersion: '1.2.0-beta',
+    });
+
+    res.redirect(`${payment.callbackURL}?${query.toString()}`);
+  });
+
+  app.post('/tokenized/checkout/execute', requireToken, (req, res) => {
+    const payment = findPayment(req, res);
+    if (!payment) return;
+
+    if (payment.transactionStatus === 'Completed') {
+      res.json({ statusCode: '2062', statusMessage: 'The payment has already been completed' });
+      return;
+    }
+
+    if (payment.transactionStatus !== 'Initiated' || !payment.approved) {
+      res.json({ statusCode: '2056', statusMessage: 'Invalid Payment State' });
+      return;
+    }
+
+    payment.transactionStatus = 'Completed';
+    payment.trxID = randomId(5);
+    payment.paymentExecuteTime = new Date().toISOString();
+
+    res.json({ ...toStatus(payment), customerMsisdn: '01770618575', updateTime: payment.paymentExecuteTime });
+  });
+
+  app.post('/tokenized/checkout/payment/status', requireToken, (req, res) => {
+    const payment = findPayment(req, res);
+    if (!payment) return;
+
+    res.json(toStatus(payment));
+  });
+
+  app.post('/tokenized/checkout/payment/refund', requireToken, (req, res) => {
+    const payment = findPayment(req, res);
+    if (!payment) return;
+
+    const { trxID, amount, sku, reason } = req.body;
+    const cents = Math.round(Number(amount) * 100);
+
+    if (!sku || !reason || !(cents > 0)) {
+      res.json({ statusCode: '2065', statusMessage: 'Mandatory field missing' });
+      return;
+    }
+
+    if (payment.transactionStatus !== 'Completed' || payment.trxID !== trxID) {
+      res.json({ statusCode: '2056', statusMessage: 'Invalid Payment State' });
+      return;
+    }
+
+    if (payment.refundedCents + cents > Math.round(Number(payment.amount) * 100)) {
+      res.json({ statusCode: '2071', statusMessage: 'Refund amount exceeds the transaction amount' });
+      return;
+    }
+
+    payment.refundedCents += cents;
+
+    res.json({
+      statusCode: '0000',
+      statusMessage: 'Successful',
+      originalTrxID: payment.trxID,
+      refundTrxID: randomId(5),
+      transactionStatus: 'Completed',
+      amount: (cents / 100).toFixed(2),
+      currency: payment.currency,
+      charge: '0.00',
+      completedTime: new Date().toISOString(),
+    });
+  });
+
+  return app;
+};
+
+if (require.main === module) {
+  dotenv.config();
+
+  const port = parseInt(process.env.BKASH_MOCK_PORT || '4010');
+
+  createBkashMockApp({ baseUrl: `http://localhost:${port}` }).listen(port, () => {
+    console.log(`🧪 Mock bKash server running on http://localhost:${port}`);
+  });
+}
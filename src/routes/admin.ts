@@ -1,10 +1,43 @@
 import express from 'express';
+import { UserController } from '../controllers/userController';
+import { TwoFactorController } from '../controllers/twoFactorController';
+import { RoleController } from '../controllers/roleController';
+import { authenticate, adminOnly, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../utils/validation';
+import {
+  updateUserStatusSchema,
+  twoFactorPolicySchema,
+  paginationSchema,
+  customRoleSchema,
+  updateCustomRoleSchema,
+  assignCustomRoleSchema
+} from '../utils/validation';
 
 const router = express.Router();
+const userController = new UserController();
+const twoFactorController = new TwoFactorController();
+const roleController = new RoleController();
 
-// Admin routes placeholder
-router.get('/', (req, res) => {
-  res.json({ message: 'Admin routes - coming soon' });
-});
+router.use(authenticate);
 
-export default router;
\ No newline at end of file
+// User moderation
+router.patch('/users/:id/status', requirePermission('user:manage'), validateRequest(updateUserStatusSchema), userController.updateUserStatus);
+router.post('/users/:id/unlock', requirePermission('user:manage'), userController.unlockUser);
+router.get('/users/:id/login-attempts', requirePermission('user:manage'), validateRequest(paginationSchema), userController.getUserLoginAttempts);
+
+// Everything below requires an admin account
+router.use(adminOnly);
+
+// Custom roles and the permission registry
+router.get('/permissions', roleController.getPermissionRegistry);
+router.get('/roles', roleController.getRoles);
+router.post('/roles', validateRequest(customRoleSchema), roleController.createRole);
+router.patch('/roles/:id', validateRequest(updateCustomRoleSchema), roleController.updateRole);
+router.delete('/roles/:id', roleController.deleteRole);
+router.put('/users/:id/role', validateRequest(assignCustomRoleSchema), roleController.assignUserRole);
+
+// Two-factor authentication policy
+router.get('/2fa-policies', twoFactorController.getPolicies);
+router.put('/2fa-policies', validateRequest(twoFactorPolicySchema), twoFactorController.updatePolicy);
+
+export default router;
@@ -1,24 +1,90 @@
 import express from 'express';
+import rateLimit from 'express-rate-limit';
 import { AuthController } from '../controllers/authController';
-import { authenticate, optionalAuth } from '../middleware/auth';
+import { TwoFactorController } from '../controllers/twoFactorController';
+import { authenticate, authenticateForTwoFactorSetup, optionalAuth } from '../middleware/auth';
+import { AuthenticatedRequest } from '../types';
 import { validateRequest } from '../utils/validation';
-import { loginSchema, registerSchema, refreshTokenSchema, changePasswordSchema } from '../utils/validation';
+import {
+  loginSchema,
+  registerSchema,
+  refreshTokenSchema,
+  changePasswordSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  disableTwoFactorSchema
+} from '../utils/validation';
 
 const router = express.Router();
 const authController = new AuthController();
+const twoFactorController = new TwoFactorController();
+
+// Limit reset emails per address so one inbox cannot be flooded from many IPs
+const forgotPasswordLimiter = rateLimit({
+  windowMs: parseInt(process.env.PASSWORD_RESET_WINDOW_MS || '3600000'), // 1 hour
+  max: parseInt(process.env.PASSWORD_RESET_MAX_REQUESTS || '3'),
+  keyGenerator: (req) => String(req.body?.email || req.ip).trim().toLowerCase(),
+  message: {
+    error: 'Too many password reset requests for this email, please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Limit verification resends per account
+const resendVerificationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 3,
+  keyGenerator: (req) => (req as AuthenticatedRequest).user?.id || req.ip || '',
+  message: {
+    error: 'Too many verification emails requested, please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Stricter per-IP limit for credential endpoints; per-account lockout is handled on login
+const authLimiter = rateLimit({
+  windowMs: parseInt(process.env.AUTH_RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
+  max: parseInt(process.env.AUTH_RATE_LIMIT_MAX_REQUESTS || '20'),
+  message: {
+    error: 'Too many authentication attempts from this IP, please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
 
 // Public routes
-router.post('/register', validateRequest(registerSchema), authController.register);
-router.post('/login', validateRequest(loginSchema), authController.login);
+router.post('/register', authLimiter, validateRequest(registerSchema), authController.register);
+router.post('/login', authLimiter, validateRequest(loginSchema), authController.login);
+router.post('/login/2fa', authLimiter, validateRequest(twoFactorLoginSchema), authController.verifyTwoFactorLogin);
 router.post('/refresh', validateRequest(refreshTokenSchema), authController.refreshToken);
+router.post('/forgot-password', authLimiter, forgotPasswordLimiter, validateRequest(forgotPasswordSchema), authController.forgotPassword);
+router.post('/reset-password', authLimiter, validateRequest(resetPasswordSchema), authController.resetPassword);
+router.get('/verify-email', validateRequest(verifyEmailSchema), authController.verifyEmail);
+router.post('/verify-email', validateRequest(verifyEmailSchema), authController.verifyEmail);
 
 // Protected routes
-router.post('/logout', authenticate, authController.logout);
+router.post('/logout', authenticateForTwoFactorSetup, authController.logout);
 router.post('/logout-all', authenticate, authController.logoutAll);
+router.post('/resend-verification', authenticate, resendVerificationLimiter, authController.resendVerification);
 router.post('/change-password', authenticate, validateRequest(changePasswordSchema), authController.changePassword);
 router.get('/me', authenticate, authController.getProfile);
+router.get('/permissions', authenticate, authController.getPermissions);
+router.get('/sessions', authenticate, authController.getSessions);
+router.delete('/sessions/:id', authenticate, authController.deleteSession);
 router.get('/verify', authenticate, authController.verifyToken);
 
+// Two-factor authentication routes
+router.get('/2fa', authenticateForTwoFactorSetup, twoFactorController.getStatus);
+router.post('/2fa/setup', authenticateForTwoFactorSetup, twoFactorController.setup);
+router.post('/2fa/enable', authenticateForTwoFactorSetup, validateRequest(twoFactorCodeSchema), twoFactorController.enable);
+router.post('/2fa/disable', authenticate, validateRequest(disableTwoFactorSchema), twoFactorController.disable);
+router.post('/2fa/recovery-codes', authenticate, validateRequest(twoFactorCodeSchema), twoFactorController.regenerateRecoveryCodes);
+
 // Optional auth routes
 router.get('/check', optionalAuth, authController.checkAuth);
 
@@ -0,0 +1,19 @@
+import express from 'express';
+import { CartController } from '../controllers/cartController';
+import { optionalAuth } from '../middleware/auth';
+import { validateRequest } from '../utils/validation';
+import { addToCartSchema, updateCartItemSchema } from '../utils/validation';
+
+const router = express.Router();
+const cartController = new CartController();
+
+// Cart routes - signed-in buyers or guests identified by cart token
+router.use(optionalAuth);
+
+router.get('/', cartController.getCart);
+router.post('/', validateRequest(addToCartSchema), cartController.addToCart);
+router.patch('/:productId', validateRequest(updateCartItemSchema), cartController.updateCartItem);
+router.delete('/:productId', cartController.removeCartItem);
+router.delete('/', cartController.clearCart);
+
+export default router;
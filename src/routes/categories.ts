@@ -1,10 +1,22 @@
 import express from 'express';
+import { CategoryController } from '../controllers/categoryController';
+import { authenticate, optionalAuth, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../utils/validation';
+import { createCategorySchema, updateCategorySchema, categoryFilterSchema } from '../utils/validation';
 
 const router = express.Router();
+const categoryController = new CategoryController();
 
-// Categories routes placeholder
-router.get('/', (req, res) => {
-  res.json({ message: 'Categories routes - coming soon' });
-});
+// Public routes
+router.get('/', optionalAuth, validateRequest(categoryFilterSchema), categoryController.getCategories);
+router.get('/tree', optionalAuth, validateRequest(categoryFilterSchema), categoryController.getCategoryTree);
+router.get('/:id', optionalAuth, categoryController.getCategory);
 
-export default router;
\ No newline at end of file
+// Category management routes
+router.use(authenticate, requirePermission('category:write'));
+
+router.post('/', validateRequest(createCategorySchema), categoryController.createCategory);
+router.put('/:id', validateRequest(updateCategorySchema), categoryController.updateCategory);
+router.delete('/:id', categoryController.deleteCategory);
+
+export default router;
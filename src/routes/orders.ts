@@ -1,10 +1,43 @@
 import express from 'express';
+import { OrderController } from '../controllers/orderController';
+import { RefundController } from '../controllers/refundController';
+import { PaymentController } from '../controllers/paymentController';
+import { authenticate, buyerOnly, requirePermission, requireResourceOwnership } from '../middleware/auth';
+import { validateRequest } from '../utils/validation';
+import {
+  createOrderSchema,
+  checkoutSchema,
+  updateOrderStatusSchema,
+  orderFilterSchema,
+  createRefundSchema,
+  resolveRefundSchema
+} from '../utils/validation';
 
 const router = express.Router();
+const orderController = new OrderController();
+const refundController = new RefundController();
+const paymentController = new PaymentController();
 
-// Orders routes placeholder
-router.get('/', (req, res) => {
-  res.json({ message: 'Orders routes - coming soon' });
-});
+// All order routes require authentication
+router.use(authenticate);
 
-export default router;
\ No newline at end of file
+// Shared routes - results are scoped by role
+router.get('/', requirePermission('order:read'), validateRequest(orderFilterSchema), orderController.getOrders);
+router.get('/:id', requirePermission('order:read'), requireResourceOwnership('order'), orderController.getOrder);
+
+// Buyer routes
+router.post('/', buyerOnly, validateRequest(createOrderSchema), orderController.createOrder);
+router.post('/checkout', buyerOnly, validateRequest(checkoutSchema), orderController.checkout);
+
+// Status transitions are checked per role in the controller
+router.patch('/:id/status', requireResourceOwnership('order'), validateRequest(updateOrderStatusSchema), orderController.updateOrderStatus);
+
+// Every payment attempt for the order
+router.get('/:id/payments', requirePermission('order:read'), requireResourceOwnership('order'), paymentController.getOrderPayments);
+
+// Refunds - issued by admins or the store's finance staff, visible to everyone with access to the order
+router.get('/:id/refunds', requirePermission('order:read'), requireResourceOwnership('order'), refundController.getRefunds);
+router.post('/:id/refunds', requirePermission('finance:write'), requireResourceOwnership('order'), validateRequest(createRefundSchema), refundController.createRefund);
+router.post('/:id/refunds/:refundId/resolve', requirePermission('finance:write'), requireResourceOwnership('order'), validateRequest(resolveRefundSchema), refundController.resolveRefund);
+
+export default router;
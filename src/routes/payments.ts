@@ -1,10 +1,39 @@
 import express from 'express';
+import { PaymentController } from '../controllers/paymentController';
+import { CodController } from '../controllers/codController';
+import { authenticate, buyerOnly, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../utils/validation';
+import {
+  createPaymentSchema,
+  paymentIdSchema,
+  paymentTransactionFilterSchema,
+  codCollectionFilterSchema,
+  codRemittanceSchema,
+  codReconciliationSchema
+} from '../utils/validation';
 
 const router = express.Router();
+const paymentController = new PaymentController();
+const codController = new CodController();
 
-// Payments routes placeholder
-router.get('/', (req, res) => {
-  res.json({ message: 'Payments routes - coming soon' });
-});
+// Browser redirects and server-to-server webhooks from providers; each provider verifies its own payload
+router.get('/:provider/callback', paymentController.paymentCallback);
+router.post('/:provider/callback', paymentController.paymentCallback);
 
-export default router;
\ No newline at end of file
+// Protected routes
+router.use(authenticate);
+
+// Payment ledger
+router.get('/transactions', requirePermission('finance:read'), validateRequest(paymentTransactionFilterSchema), paymentController.getTransactions);
+
+// Cash-on-delivery settlement
+router.get('/cod/collections', requirePermission('finance:read'), validateRequest(codCollectionFilterSchema), codController.getCollections);
+router.post('/cod/remittances', requirePermission('finance:write'), validateRequest(codRemittanceSchema), codController.remitCollections);
+router.get('/cod/reconciliation', requirePermission('finance:read'), validateRequest(codReconciliationSchema), codController.getReconciliationReport);
+
+// Provider payments, e.g. /bkash/create
+router.post('/:provider/create', buyerOnly, validateRequest(createPaymentSchema), paymentController.createPayment);
+router.post('/:provider/execute', buyerOnly, validateRequest(paymentIdSchema), paymentController.executePayment);
+router.get('/:provider/:paymentID', validateRequest(paymentIdSchema), paymentController.queryPayment);
+
+export default router;
@@ -3,8 +3,8 @@ import { ProductController } from '../controllers/productController';
 import { 
   authenticate, 
   optionalAuth, 
-  canManageProducts,
-  requireSellerOwnership 
+  requirePermission,
+  requireResourceOwnership
 } from '../middleware/auth';
 import { validateRequest } from '../utils/validation';
 import { 
@@ -26,9 +26,9 @@ router.get('/:id', optionalAuth, productController.getProduct);
 router.use(authenticate);
 
 // Seller routes
-router.get('/seller/my-products', canManageProducts, productController.getSellerProducts);
-router.post('/', canManageProducts, validateRequest(createProductSchema), productController.createProduct);
-router.put('/:id', canManageProducts, requireSellerOwnership('sellerId'), validateRequest(updateProductSchema), productController.updateProduct);
-router.delete('/:id', canManageProducts, requireSellerOwnership('sellerId'), productController.deleteProduct);
+router.get('/seller/my-products', requirePermission('product:write'), productController.getSellerProducts);
+router.post('/', requirePermission('product:write'), validateRequest(createProductSchema), productController.createProduct);
+router.put('/:id', requirePermission('product:write'), requireResourceOwnership('product'), validateRequest(updateProductSchema), productController.updateProduct);
+router.delete('/:id', requirePermission('product:delete'), requireResourceOwnership('product'), productController.deleteProduct);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,24 @@
+import express from 'express';
+import { ReviewController } from '../controllers/reviewController';
+import { authenticate, optionalAuth, buyerOnly, requireResourceOwnership } from '../middleware/auth';
+import { validateRequest } from '../utils/validation';
+import {
+  createReviewSchema,
+  updateReviewSchema,
+  reviewFilterSchema
+} from '../utils/validation';
+
+const router = express.Router();
+const reviewController = new ReviewController();
+
+// Public routes
+router.get('/', optionalAuth, validateRequest(reviewFilterSchema), reviewController.getReviews);
+
+// Protected routes
+router.use(authenticate);
+
+router.post('/', buyerOnly, validateRequest(createReviewSchema), reviewController.createReview);
+router.patch('/:id', buyerOnly, requireResourceOwnership('review', { allowAdminAccess: false }), validateRequest(updateReviewSchema), reviewController.updateReview);
+router.delete('/:id', requireResourceOwnership('review'), reviewController.deleteReview);
+
+export default router;
@@ -0,0 +1,32 @@
+import express from 'express';
+import { StoreController } from '../controllers/storeController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../utils/validation';
+import {
+  updateStoreSchema,
+  storeInvitationSchema,
+  acceptStoreInvitationSchema,
+  updateStoreMemberSchema
+} from '../utils/validation';
+
+const router = express.Router();
+const storeController = new StoreController();
+
+// All store routes require authentication
+router.use(authenticate);
+
+// Joining a store
+router.post('/invitations/accept', validateRequest(acceptStoreInvitationSchema), storeController.acceptInvitation);
+
+// Own store routes
+router.get('/me', storeController.getMyStore);
+router.patch('/me', requirePermission('store:manage'), validateRequest(updateStoreSchema), storeController.updateMyStore);
+
+// Staff management routes (Manager only)
+router.patch('/me/members/:userId', requirePermission('store:manage'), validateRequest(updateStoreMemberSchema), storeController.updateMemberRole);
+router.delete('/me/members/:userId', requirePermission('store:manage'), storeController.removeMember);
+router.get('/me/invitations', requirePermission('store:manage'), storeController.getInvitations);
+router.post('/me/invitations', requirePermission('store:manage'), validateRequest(storeInvitationSchema), storeController.inviteMember);
+router.delete('/me/invitations/:id', requirePermission('store:manage'), storeController.revokeInvitation);
+
+export default router;
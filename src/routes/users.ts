@@ -1,10 +1,28 @@
 import express from 'express';
+import { UserController } from '../controllers/userController';
+import { AuthController } from '../controllers/authController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { imageUpload } from '../middleware/upload';
+import { validateRequest } from '../utils/validation';
+import { userFilterSchema, paginationSchema, updateProfileSchema } from '../utils/validation';
 
 const router = express.Router();
+const userController = new UserController();
+const authController = new AuthController();
 
-// Users routes placeholder
-router.get('/', (req, res) => {
-  res.json({ message: 'Users routes - coming soon' });
-});
+// All user routes require authentication
+router.use(authenticate);
 
-export default router;
\ No newline at end of file
+// Self-service profile routes
+router.get('/me', authController.getProfile);
+router.patch('/me', validateRequest(updateProfileSchema), userController.updateProfile);
+router.put('/me/avatar', imageUpload.single('avatar'), userController.uploadAvatar);
+router.delete('/me/avatar', userController.deleteAvatar);
+
+// User management routes
+router.get('/', requirePermission('user:read'), validateRequest(userFilterSchema), userController.getUsers);
+router.get('/:id', requirePermission('user:read'), userController.getUser);
+router.get('/:id/orders', requirePermission('user:read'), validateRequest(paginationSchema), userController.getUserOrders);
+router.get('/:id/products', requirePermission('user:read'), validateRequest(paginationSchema), userController.getUserProducts);
+
+export default router;
@@ -0,0 +1,301 @@
+import axios from 'axios';
+import {
+  BkashPaymentRequest,
+  BkashTokenResponse,
+  BkashPaymentResponse,
+  BkashExecutePaymentResponse,
+  BkashQueryPaymentResponse,
+  BkashRefundResponse,
+  PaymentProvider,
+  ProviderPaymentState
+} from '../types';
+import { ErrorUtil } from '../utils';
+import { bkashCallbackSchema } from '../utils/validation';
+
+const BKASH_SUCCESS_CODE = '0000';
+
+// bKash transaction states that end a payment
+const COMPLETED_STATES = ['Completed'];
+// Approved by the buyer and waiting for the merchant to capture it
+const AUTHORIZED_STATES = ['Authorized'];
+const FAILED_STATES = ['Failed', 'Cancelled', 'Expired', 'Declined'];
+
+// Renew the grant token a minute before bKash expires it
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+// bKash refresh tokens stay valid for 28 days
+const REFRESH_TOKEN_TTL_MS = 28 * 24 * 60 * 60 * 1000;
+
+interface CachedToken {
+  idToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  refreshExpiresAt: number;
+}
+
+let cachedToken: CachedToken | null = null;
+// Concurrent requests share one in-flight grant instead of each asking for a token
+let pendingToken: Promise<string> | null = null;
+
+// bKash reports failures in the body with a non-zero status code (older APIs use errorCode)
+const assertSuccess = <T extends { statusCode?: string; statusMessage?: string }>(data: T, action: string): T => {
+  const body = data as T & { errorCode?: string; errorMessage?: string };
+  const statusCode = body.statusCode ?? body.errorCode;
+
+  if (statusCode !== BKASH_SUCCESS_CODE) {
+    throw ErrorUtil.createError(
+      `bKash ${action} failed: ${body.statusMessage ?? body.errorMessage ?? 'Unknown error'}`,
+      502,
+      'BKASH_ERROR'
+    );
+  }
+
+  return data;
+};
+
+const post = async <T>(path: string, body: object, headers: Record<string, string>): Promise<T> => {
+  try {
+    // Settings are read per request so the base URL can point at the local mock server
+    const response = await axios.post<T>(`${process.env.BKASH_BASE_URL}${path}`, body, {
+      timeout: parseInt(process.env.BKASH_TIMEOUT_MS || '30000'),
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...headers,
+      },
+    });
+    return response.data;
+  } catch (error: any) {
+    if (axios.isAxiosError(error) && error.response?.data) {
+      return error.response.data as T;
+    }
+    throw ErrorUtil.createError('bKash is unavailable, please try again later', 503, 'BKASH_UNAVAILABLE');
+  }
+};
+
+const requestToken = async (path: string, body: object) => {
+  const data = await post<BkashTokenResponse>(
+    path,
+    {
+      app_key: process.env.BKASH_APP_KEY,
+      app_secret: process.env.BKASH_APP_SECRET,
+      ...body,
+    },
+    {
+      username: process.env.BKASH_USERNAME || '',
+      password: process.env.BKASH_PASSWORD || '',
+    }
+  );
+
+  assertSuccess(data, 'token request');
+
+  const now = Date.now();
+  cachedToken = {
+    idToken: data.id_token,
+    refreshToken: data.refresh_token,
+    expiresAt: now + data.expires_in * 1000,
+    refreshExpiresAt: now + REFRESH_TOKEN_TTL_MS,
+  };
+
+  return data.id_token;
+};
+
+// Cached grant token; refreshed with the refresh token while it is valid, otherwise granted again
+export const getGrantToken = async (): Promise<string> => {
+  const now = Date.now();
+
+  if (cachedToken && now < cachedToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS) {
+    return cachedToken.idToken;
+  }
+
+  if (!pendingToken) {
+    const previousToken = cachedToken;
+
+    pendingToken = (async () => {
+      if (previousToken && now < previousToken.refreshExpiresAt) {
+        try {
+          return await requestToken('/tokenized/checkout/token/refresh', {
+            refresh_token: previousToken.refreshToken,
+          });
+        } catch (error) {
+          // Fall back to a fresh grant when bKash rejects the refresh token
+        }
+      }
+
+      return requestToken('/tokenized/checkout/token/grant', {});
+    })().finally(() => {
+      pendingToken = null;
+    });
+  }
+
+  return pendingToken;
+};
+
+// Forget the cached token, e.g. after bKash rejects it or when switching credentials
+export const clearGrantToken = () => {
+  cachedToken = null;
+};
+
+const authorizedPost = async <T>(path: string, body: object): Promise<T> => {
+  const send = async () => post<T & { statusCode?: string; message?: string }>(path, body, {
+    Authorization: await getGrantToken(),
+    'X-APP-Key': process.env.BKASH_APP_KEY || '',
+  });
+
+  let data = await send();
+
+  // A token revoked early by bKash is replaced once before giving up
+  if (data.statusCode === undefined && data.message === 'Unauthorized') {
+    clearGrantToken();
+    data = await send();
+  }
+
+  return data;
+};
+
+// Start a tokenized checkout; the buyer approves it on the returned bkashURL
+export const createPayment = async (
+  request: BkashPaymentRequest,
+  options: { callbackURL: string; payerReference: string }
+) => {
+  const data = await authorizedPost<BkashPaymentResponse>('/tokenized/checkout/create', {
+    mode: '0011',
+    payerReference: options.payerReference,
+    callbackURL: options.callbackURL,
+    amount: request.amount.toFixed(2),
+    currency: request.currency || 'BDT',
+    intent: request.intent,
+    merchantInvoiceNumber: request.orderNumber,
+  });
+
+  return assertSuccess(data, 'create payment');
+};
+
+// Capture a payment the buyer approved
+export const executePayment = async (paymentID: string) => {
+  const data = await authorizedPost<BkashExecutePaymentResponse>('/tokenized/checkout/execute', {
+    paymentID,
+  });
+
+  return assertSuccess(data, 'execute payment');
+};
+
+// Current state of a payment as recorded by bKash
+export const queryPayment = async (paymentID: string) => {
+  const data = await authorizedPost<BkashQueryPaymentResponse>('/tokenized/checkout/payment/status', {
+    paymentID,
+  });
+
+  return assertSuccess(data, 'query payment');
+};
+
+// Return part or all of a completed payment to the buyer's wallet
+export const refundPayment = async (refund: {
+  paymentID: string;
+  trxID: string;
+  amount: number;
+  sku: string;
+  reason: string;
+}) => {
+  const data = await authorizedPost<BkashRefundResponse>('/tokenized/checkout/payment/refund', {
+    paymentID: refund.paymentID,
+    trxID: refund.trxID,
+    amount: refund.amount.toFixed(2),
+    sku: refund.sku,
+    reason: refund.reason.substring(0, 255),
+  });
+
+  return assertSuccess(data, 'refund');
+};
+
+type BkashResult = Pick<BkashQueryPaymentResponse, 'paymentID' | 'transactionStatus'> &
+  Partial<Pick<BkashExecutePaymentResponse, 'trxID' | 'paymentExecuteTime'>>;
+
+const toPaymentState = (result: BkashResult): ProviderPaymentState => {
+  let status: ProviderPaymentState['status'] = 'INITIATED';
+
+  if (AUTHORIZED_STATES.includes(result.transactionStatus)) status = 'AUTHORIZED';
+  if (COMPLETED_STATES.includes(result.transactionStatus)) status = 'CAPTURED';
+  if (FAILED_STATES.includes(result.transactionStatus)) status = 'FAILED';
+
+  return {
+    providerPaymentId: result.paymentID,
+    status,
+    providerStatus: result.transactionStatus,
+    providerTransactionId: result.trxID ?? null,
+    completedAt: result.paymentExecuteTime ?? null,
+  };
+};
+
+// Execute an approved payment; when bKash refuses (e.g. already executed) its recorded state is used instead
+const executeOrQuery = async (paymentID: string): Promise<BkashResult> => {
+  try {
+    return await executePayment(paymentID);
+  } catch (error: any) {
+    if (error.code !== 'BKASH_ERROR') {
+      throw error;
+    }
+    return queryPayment(paymentID);
+  }
+};
+
+export const bkashProvider: PaymentProvider = {
+  method: 'BKASH',
+  slug: 'bkash',
+  name: 'bKash',
+  settlesOnDelivery: false,
+
+  async initiate(request) {
+    const payment = await createPayment(
+      {
+        amount: request.amount,
+        orderNumber: request.orderNumber,
+        currency: request.currency,
+        intent: 'sale',
+      },
+      {
+        callbackURL: request.callbackURL,
+        payerReference: request.payerReference,
+      }
+    );
+
+    return {
+      providerPaymentId: payment.paymentID,
+      status: 'INITIATED',
+      providerStatus: payment.transactionStatus,
+      redirectUrl: payment.bkashURL,
+      details: { createTime: payment.paymentCreateTime },
+    };
+  },
+
+  async confirm(providerPaymentId) {
+    return toPaymentState(await executeOrQuery(providerPaymentId));
+  },
+
+  async query(providerPaymentId) {
+    return toPaymentState(await queryPayment(providerPaymentId));
+  },
+
+  async refund(request) {
+    if (!request.providerPaymentId || !request.providerTransactionId) {
+      throw ErrorUtil.createError('The bKash transaction for this order is unknown', 400, 'PAYMENT_REFERENCE_MISSING');
+    }
+
+    const result = await refundPayment({
+      paymentID: request.providerPaymentId,
+      trxID: request.providerTransactionId,
+      amount: request.amount,
+      sku: request.orderNumber,
+      reason: request.reason,
+    });
+
+    return { reference: result.refundTrxID };
+  },
+
+  // The browser redirect is unsigned, so its status is ignored and bKash itself is asked for the outcome.
+  // A payment bKash still reports "Initiated" stays that way; executing it decides whether the buyer approved it.
+  async verifyWebhook(payload) {
+    const { paymentID } = bkashCallbackSchema.parse(payload);
+
+    return toPaymentState(await queryPayment(paymentID));
+  },
+};
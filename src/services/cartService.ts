@@ -0,0 +1,220 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { Cart, CartItem, CartAdjustment, CartOwner } from '../types';
+import { PriceUtil, TokenUtil, DateUtil } from '../utils';
+
+const prisma = new PrismaClient();
+
+export const GUEST_CART_COOKIE = 'guestCartToken';
+export const GUEST_CART_HEADER = 'x-guest-cart-token';
+
+const GUEST_CART_TTL_DAYS = 30;
+
+const cartProductSelect = {
+  id: true,
+  title: true,
+  images: true,
+  stock: true,
+  price: true,
+  discountPrice: true,
+  discountEndDate: true,
+  isActive: true,
+};
+
+// Guest carts are identified by a cookie, or a header for non-browser clients
+export const getGuestCartToken = (req: Request): string | undefined => {
+  const headerToken = req.headers[GUEST_CART_HEADER];
+  return req.cookies?.[GUEST_CART_COOKIE] || (typeof headerToken === 'string' ? headerToken : undefined);
+};
+
+// Find a live guest cart by token, removing it if it has expired
+export const findGuestCart = async (token: string) => {
+  const guestCart = await prisma.guestCart.findUnique({
+    where: { token },
+  });
+
+  if (guestCart && DateUtil.isDateExpired(guestCart.expiresAt)) {
+    await prisma.guestCart.delete({
+      where: { id: guestCart.id },
+    });
+    return null;
+  }
+
+  return guestCart;
+};
+
+export const createGuestCart = async (res: Response) => {
+  const guestCart = await prisma.guestCart.create({
+    data: {
+      token: TokenUtil.generateToken(),
+      expiresAt: DateUtil.addDays(new Date(), GUEST_CART_TTL_DAYS),
+    },
+  });
+
+  res.cookie(GUEST_CART_COOKIE, guestCart.token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000, // 30 days
+  });
+
+  return guestCart;
+};
+
+const findCartItems = (owner: CartOwner) =>
+  prisma.cartItem.findMany({
+    where: owner,
+    include: {
+      product: { select: cartProductSelect },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+// Compare cart lines with current stock: unavailable lines are dropped and quantities clamped
+const reviewCartItems = (cartItems: Awaited<ReturnType<typeof findCartItems>>) =>
+  cartItems.map((cartItem) => {
+    const { product } = cartItem;
+
+    if (!product.isActive || product.stock === 0) {
+      const adjustment: CartAdjustment = { productId: product.id, title: product.title, reason: 'unavailable' };
+      return { cartItem, quantity: 0, adjustment };
+    }
+
+    if (cartItem.quantity > product.stock) {
+      const adjustment: CartAdjustment = {
+        productId: product.id,
+        title: product.title,
+        reason: 'quantity_reduced',
+        quantity: product.stock,
+      };
+      return { cartItem, quantity: product.stock, adjustment };
+    }
+
+    return { cartItem, quantity: cartItem.quantity, adjustment: null };
+  });
+
+// Load a cart as it would be ordered; corrections are reported as adjustments, not saved
+export const getCart = async (owner: CartOwner): Promise<Cart> => {
+  const reviewed = reviewCartItems(await findCartItems(owner));
+
+  const items: CartItem[] = [];
+  const adjustments: CartAdjustment[] = [];
+
+  for (const { cartItem: { product }, quantity, adjustment } of reviewed) {
+    if (adjustment) {
+      adjustments.push(adjustment);
+    }
+
+    if (quantity === 0) {
+      continue;
+    }
+
+    const price = PriceUtil.getEffectivePrice(product);
+
+    items.push({
+      productId: product.id,
+      quantity,
+      price,
+      originalPrice: Number(product.price),
+      lineTotal: PriceUtil.round(price * quantity),
+      product: {
+        id: product.id,
+        title: product.title,
+        images: product.images,
+        stock: product.stock,
+      },
+    });
+  }
+
+  return {
+    items,
+    adjustments,
+    summary: {
+      itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+      subtotal: PriceUtil.round(items.reduce((sum, item) => sum + item.lineTotal, 0)),
+    },
+  };
+};
+
+// Save the corrections getCart reports; run before a cart write or checkout
+export const applyCartAdjustments = async (owner: CartOwner): Promise<CartAdjustment[]> => {
+  const reviewed = reviewCartItems(await findCartItems(owner));
+  const adjustments: CartAdjustment[] = [];
+
+  for (const { cartItem, quantity, adjustment } of reviewed) {
+    if (!adjustment) {
+      continue;
+    }
+
+    // Only correct the line if nobody changed it since it was read
+    if (quantity === 0) {
+      await prisma.cartItem.deleteMany({
+        where: { id: cartItem.id, quantity: cartItem.quantity },
+      });
+    } else {
+      await prisma.cartItem.updateMany({
+        where: { id: cartItem.id, quantity: cartItem.quantity },
+        data: { quantity },
+      });
+    }
+
+    adjustments.push(adjustment);
+  }
+
+  return adjustments;
+};
+
+export const emptyCart = (): Cart => ({
+  items: [],
+  adjustments: [],
+  summary: { itemCount: 0, subtotal: 0 },
+});
+
+// Move a guest cart into the user's cart, summing quantities up to available stock
+export const mergeGuestCart = async (token: string, userId: string) => {
+  const guestCart = await findGuestCart(token);
+
+  if (!guestCart) {
+    return;
+  }
+
+  const guestItems = await prisma.cartItem.findMany({
+    where: { guestCartId: guestCart.id },
+    include: {
+      product: { select: { id: true, stock: true, isActive: true } },
+    },
+  });
+
+  await prisma.$transaction(async (tx) => {
+    for (const guestItem of guestItems) {
+      if (!guestItem.product.isActive || guestItem.product.stock === 0) {
+        continue;
+      }
+
+      const existingItem = await tx.cartItem.findFirst({
+        where: { userId, productId: guestItem.productId },
+      });
+
+      const quantity = Math.min(
+        (existingItem?.quantity || 0) + guestItem.quantity,
+        guestItem.product.stock
+      );
+
+      if (existingItem) {
+        await tx.cartItem.update({
+          where: { id: existingItem.id },
+          data: { quantity },
+        });
+      } else {
+        await tx.cartItem.create({
+          data: { userId, productId: guestItem.productId, quantity },
+        });
+      }
+    }
+
+    // Guest lines are removed along with the guest cart
+    await tx.guestCart.delete({
+      where: { id: guestCart.id },
+    });
+  });
+};
@@ -0,0 +1,108 @@
+import { PrismaClient } from '@prisma/client';
+import { CategoryNode } from '../types';
+import { StringUtil } from '../utils';
+
+const prisma = new PrismaClient();
+
+// Build the category forest with active product counts rolled up from descendants
+export const getCategoryTree = async (includeInactive: boolean = false): Promise<CategoryNode[]> => {
+  const categories = await prisma.category.findMany({
+    where: includeInactive ? {} : { isActive: true },
+    include: {
+      _count: {
+        select: { products: { where: { isActive: true } } },
+      },
+    },
+    orderBy: { name: 'asc' },
+  });
+
+  const nodes = new Map<string, CategoryNode>();
+  for (const category of categories) {
+    const { _count, createdAt, updatedAt, ...fields } = category;
+    nodes.set(category.id, {
+      ...fields,
+      productCount: _count.products,
+      totalProductCount: 0,
+      children: [],
+    });
+  }
+
+  const roots: CategoryNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else if (!node.parentId) {
+      roots.push(node);
+    }
+  }
+
+  const sumProducts = (node: CategoryNode): number => {
+    node.totalProductCount = node.children.reduce(
+      (sum, child) => sum + sumProducts(child),
+      node.productCount
+    );
+    return node.totalProductCount;
+  };
+  roots.forEach(sumProducts);
+
+  return roots;
+};
+
+// Return the given category ids together with the ids of all their descendants
+export const getDescendantIds = async (categoryIds: string[]): Promise<string[]> => {
+  const categories = await prisma.category.findMany({
+    select: { id: true, parentId: true },
+  });
+
+  const ids = [...categoryIds];
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i] && !ids.includes(category.id)) {
+        ids.push(category.id);
+      }
+    }
+  }
+
+  return ids;
+};
+
+// Walk up the hierarchy to build the path from the root category
+export const getCategoryPath = async (categoryId: string) => {
+  const path: Array<{ id: string; name: string; slug: string }> = [];
+  let currentId: string | null = categoryId;
+
+  while (currentId) {
+    const category: { id: string; name: string; slug: string; parentId: string | null } | null =
+      await prisma.category.findUnique({
+        where: { id: currentId },
+        select: { id: true, name: true, slug: true, parentId: true },
+      });
+
+    if (!category) break;
+
+    path.unshift({ id: category.id, name: category.name, slug: category.slug });
+    currentId = category.parentId;
+  }
+
+  return path;
+};
+
+// Generate a slug that is not used by another category
+export const generateUniqueSlug = async (name: string, excludeId?: string) => {
+  const baseSlug = StringUtil.generateSlug(name);
+  let slug = baseSlug;
+
+  for (let suffix = 2; ; suffix++) {
+    const existing = await prisma.category.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (!existing || existing.id === excludeId) {
+      return slug;
+    }
+
+    slug = `${baseSlug}-${suffix}`;
+  }
+};
@@ -0,0 +1,210 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { PaymentProvider } from '../types';
+import { ErrorUtil } from '../utils';
+
+const prisma = new PrismaClient();
+
+// Days in the reconciliation report follow the business's local calendar
+const REPORT_TIMEZONE = 'Asia/Dhaka';
+
+interface CodCollectionInput {
+  courierName: string;
+  amount: number;
+  reference?: string;
+  collectedAt?: Date;
+}
+
+interface ReconciliationRow {
+  date: string;
+  courierName: string;
+  collectedCount: number;
+  collectedAmount: number;
+  remittedCount: number;
+  remittedAmount: number;
+  outstandingAmount: number;
+}
+
+const toCents = (amount: Prisma.Decimal | number) => Math.round(Number(amount) * 100);
+
+// Calendar day of a timestamp in the report timezone, as YYYY-MM-DD
+export const getReportDay = (date: Date) => {
+  return date.toLocaleDateString('en-CA', { timeZone: process.env.REPORT_TIMEZONE || REPORT_TIMEZONE });
+};
+
+// Record the cash a courier collected for a delivered cash-on-delivery order and mark the order paid
+export const recordCodCollection = async (
+  client: Prisma.TransactionClient,
+  order: { id: string; storeId: string; total: Prisma.Decimal },
+  collection: CodCollectionInput,
+  recordedById: string
+) => {
+  // Partial payments are not accepted at the door, so the courier must collect the full total
+  if (toCents(collection.amount) !== toCents(order.total)) {
+    throw ErrorUtil.createError(
+      `Collected amount must equal the order total of ${Number(order.total).toFixed(2)}`,
+      400,
+      'COD_AMOUNT_MISMATCH'
+    );
+  }
+
+  if (collection.collectedAt && collection.collectedAt > new Date()) {
+    throw ErrorUtil.createValidationError('collectedAt', 'Collection time cannot be in the future');
+  }
+
+  const codCollection = await client.codCollection.create({
+    data: {
+      orderId: order.id,
+      storeId: order.storeId,
+      amount: collection.amount,
+      courierName: collection.courierName.trim(),
+      reference: collection.reference,
+      collectedAt: collection.collectedAt,
+      recordedById,
+    },
+  });
+
+  await client.paymentTransaction.create({
+    data: {
+      orderId: order.id,
+      provider: 'CASH_ON_DELIVERY',
+      amount: collection.amount,
+      status: 'CAPTURED',
+      providerStatus: 'COLLECTED',
+      details: {
+        courierName: codCollection.courierName,
+        reference: codCollection.reference,
+        collectedAt: codCollection.collectedAt.toISOString(),
+      },
+      events: {
+        create: { toStatus: 'CAPTURED', source: 'collection', providerStatus: 'COLLECTED' },
+      },
+    },
+  });
+
+  await client.order.update({
+    where: { id: order.id },
+    data: { paymentStatus: 'COMPLETED' },
+  });
+
+  return codCollection;
+};
+
+// Collected vs remitted cash per courier and day
+export const buildReconciliationReport = (
+  collections: { courierName: string; amount: Prisma.Decimal; collectedAt: Date; remittedAt: Date | null }[]
+) => {
+  const rows = new Map<string, ReconciliationRow & { collectedCents: number; remittedCents: number }>();
+
+  for (const collection of collections) {
+    const date = getReportDay(collection.collectedAt);
+    const key = `${date}|${collection.courierName}`;
+
+    const row = rows.get(key) ?? {
+      date,
+      courierName: collection.courierName,
+      collectedCount: 0,
+      collectedAmount: 0,
+      remittedCount: 0,
+      remittedAmount: 0,
+      outstandingAmount: 0,
+      collectedCents: 0,
+      remittedCents: 0,
+    };
+
+    const cents = toCents(collection.amount);
+    row.collectedCount += 1;
+    row.collectedCents += cents;
+
+    if (collection.remittedAt) {
+      row.remittedCount += 1;
+      row.remittedCents += cents;
+    }
+
+    rows.set(key, row);
+  }
+
+  const totals = { collectedCount: 0, collectedAmount: 0, remittedCount: 0, remittedAmount: 0, outstandingAmount: 0 };
+  let collectedCents = 0;
+  let remittedCents = 0;
+
+  // Amounts are summed in cents to avoid floating point drift
+  const report = Array.from(rows.values())
+    .sort((a, b) => a.date.localeCompare(b.date) || a.courierName.localeCompare(b.courierName))
+    .map(({ collectedCents: collected, remittedCents: remitted, ...row }) => {
+      collectedCents += collected;
+      remittedCents += remitted;
+      totals.collectedCount += row.collectedCount;
+      totals.remittedCount += row.remittedCount;
+
+      return {
+        ...row,
+        collectedAmount: collected / 100,
+        remittedAmount: remitted / 100,
+        outstandingAmount: (collected - remitted) / 100,
+      };
+    });
+
+  totals.collectedAmount = collectedCents / 100;
+  totals.remittedAmount = remittedCents / 100;
+  totals.outstandingAmount = (collectedCents - remittedCents) / 100;
+
+  return { rows: report, totals };
+};
+
+// Mark collections as handed over to the store; already remitted collections are left untouched
+export const remitCodCollections = async (
+  where: Prisma.CodCollectionWhereInput,
+  remittance: { remittanceReference: string; remittedAt?: Date },
+  remittedById: string
+) => {
+  const { count } = await prisma.codCollection.updateMany({
+    where: { ...where, remittedAt: null },
+    data: {
+      remittedAt: remittance.remittedAt ?? new Date(),
+      remittanceReference: remittance.remittanceReference,
+      remittedById,
+    },
+  });
+
+  return count;
+};
+
+const settledOnDelivery = () => ErrorUtil.createError(
+  "Cash-on-delivery payments are settled when the courier's collection is recorded",
+  400,
+  'PAYMENT_ACTION_UNSUPPORTED'
+);
+
+export const codProvider: PaymentProvider = {
+  method: 'CASH_ON_DELIVERY',
+  slug: 'cod',
+  name: 'Cash on delivery',
+  settlesOnDelivery: true,
+
+  // Nothing happens up front; the courier collects the cash at the door
+  async initiate() {
+    return {
+      providerPaymentId: null,
+      status: 'INITIATED',
+      providerStatus: 'AWAITING_COLLECTION',
+      redirectUrl: null,
+    };
+  },
+
+  async confirm() {
+    throw settledOnDelivery();
+  },
+
+  async query() {
+    throw settledOnDelivery();
+  },
+
+  // The store hands the cash back itself, so the refund only records its receipt
+  async refund(request) {
+    return { reference: request.reference ?? null };
+  },
+
+  async verifyWebhook() {
+    throw settledOnDelivery();
+  },
+};
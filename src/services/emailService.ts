@@ -283,6 +283,166 @@ class EmailService {
     return this.sendEmail(email, subject, html);
   }
 
+  // Send account lockout notice
+  async sendAccountLockedEmail(email: string, userName: string, lockedUntil: Date) {
+    const resetUrl = `${process.env.CLIENT_URL}/forgot-password`;
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 20px; background-color: #f4f4f4; }
+          .container { max-width: 600px; margin: 0 auto; background-color: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+          .header { background-color: #dc2626; color: white; padding: 30px; text-align: center; }
+          .content { padding: 30px; }
+          .footer { background-color: #f8f9fa; padding: 20px; text-align: center; color: #6c757d; font-size: 14px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #dc2626; color: white; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .warning { background-color: #fef2f2; border-left: 4px solid #dc2626; padding: 15px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🔐 Account Temporarily Locked</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${userName}!</h2>
+            <p>We noticed several failed sign-in attempts on your Lagbe Kichu account, so we have temporarily locked it to keep it safe.</p>
+            
+            <div class="warning">
+              <strong>Locked until:</strong> ${lockedUntil.toLocaleString()}
+            </div>
+            
+            <p>If these attempts were not you, we recommend resetting your password once the lock expires.</p>
+            
+            <a href="${resetUrl}" class="button">Reset Password</a>
+          </div>
+          <div class="footer">
+            <p>&copy; 2025 Lagbe Kichu. All rights reserved.</p>
+            <p>For security questions, contact us at security@lagbe-kichu.xyz</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const subject = 'Your Lagbe Kichu Account Has Been Locked 🔐';
+    return this.sendEmail(email, subject, html);
+  }
+
+  // Send store staff invitation
+  async sendStoreInvitationEmail(email: string, data: {
+    storeName: string;
+    inviterName: string;
+    sellerRole: string;
+    invitationToken: string;
+  }) {
+    const invitationUrl = `${process.env.CLIENT_URL}/store-invitations/accept?token=${data.invitationToken}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 20px; background-color: #f4f4f4; }
+          .container { max-width: 600px; margin: 0 auto; background-color: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+          .header { background-color: #2563eb; color: white; padding: 30px; text-align: center; }
+          .content { padding: 30px; }
+          .footer { background-color: #f8f9fa; padding: 20px; text-align: center; color: #6c757d; font-size: 14px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #2563eb; color: white; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🏪 Join ${data.storeName}</h1>
+          </div>
+          <div class="content">
+            <h2>Hello!</h2>
+            <p>${data.inviterName} has invited you to join <strong>${data.storeName}</strong> on Lagbe Kichu as <strong>${data.sellerRole.toLowerCase()}</strong>.</p>
+            <p>Sign in or create an account with this email address, then accept the invitation.</p>
+
+            <a href="${invitationUrl}" class="button">Accept Invitation</a>
+
+            <p>Or copy and paste this link in your browser:</p>
+            <p style="background-color: #f3f4f6; padding: 10px; border-radius: 4px; word-break: break-all; font-family: monospace;">${invitationUrl}</p>
+
+            <p><strong>This invitation will expire in 7 days.</strong></p>
+          </div>
+          <div class="footer">
+            <p>&copy; 2025 Lagbe Kichu. All rights reserved.</p>
+            <p>If you weren't expecting this invitation, you can safely ignore this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const subject = `You're Invited to Join ${data.storeName} on Lagbe Kichu 🏪`;
+    return this.sendEmail(email, subject, html);
+  }
+
+  // Send refund confirmation
+  async sendRefundEmail(email: string, data: {
+    userName: string;
+    orderNumber: string;
+    amount: number;
+    reason: string;
+    method: string;
+  }) {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 20px; background-color: #f4f4f4; }
+          .container { max-width: 600px; margin: 0 auto; background-color: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+          .header { background-color: #10b981; color: white; padding: 30px; text-align: center; }
+          .content { padding: 30px; }
+          .footer { background-color: #f8f9fa; padding: 20px; text-align: center; color: #6c757d; font-size: 14px; }
+          .refund-details { background-color: #f8f9fa; padding: 20px; border-radius: 6px; margin: 20px 0; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #2563eb; color: white; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>💸 Refund Issued</h1>
+            <p>Order #${data.orderNumber}</p>
+          </div>
+          <div class="content">
+            <h2>Hello ${data.userName}!</h2>
+            <p>We have issued a refund for your order.</p>
+
+            <div class="refund-details">
+              <p><strong>Amount:</strong> ৳${data.amount.toLocaleString()}</p>
+              <p><strong>Reason:</strong> ${data.reason}</p>
+            </div>
+
+            ${data.method === 'BKASH' ?
+              '<p>The amount has been returned to the bKash account you paid with.</p>' :
+              '<p>The seller will hand the amount back to you in cash.</p>'
+            }
+
+            <a href="${process.env.CLIENT_URL}/orders/${data.orderNumber}" class="button">View Order</a>
+          </div>
+          <div class="footer">
+            <p>&copy; 2025 Lagbe Kichu. All rights reserved.</p>
+            <p>For support, contact us at support@lagbe-kichu.xyz</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const subject = `Refund Issued for Order #${data.orderNumber} 💸`;
+    return this.sendEmail(email, subject, html);
+  }
+
   // Test email connection
   async testConnection() {
     try {
@@ -0,0 +1,123 @@
+import { Request } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ErrorUtil } from '../utils';
+import emailService from './emailService';
+
+const prisma = new PrismaClient();
+
+// Failed attempts allowed before the account is locked
+const MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5');
+// First lockout duration; doubles with every further failure
+const LOCKOUT_BASE_MS = parseInt(process.env.LOGIN_LOCKOUT_BASE_MS || '60000'); // 1 minute
+const LOCKOUT_MAX_MS = parseInt(process.env.LOGIN_LOCKOUT_MAX_MS || '86400000'); // 24 hours
+
+interface ProtectedUser {
+  id: string;
+  email: string;
+  name: string;
+  lockedUntil: Date | null;
+}
+
+export const getLockoutDuration = (failedAttempts: number) => {
+  const excess = failedAttempts - MAX_FAILED_ATTEMPTS;
+  return Math.min(LOCKOUT_BASE_MS * 2 ** excess, LOCKOUT_MAX_MS);
+};
+
+// Record a sign-in attempt for the audit trail
+export const recordLoginAttempt = async (
+  req: Request,
+  data: { email: string; userId?: string; success: boolean; reason?: string }
+) => {
+  await prisma.loginAttempt.create({
+    data: {
+      ...data,
+      ipAddress: req.ip || null,
+      userAgent: req.get('User-Agent')?.substring(0, 500) || null,
+    },
+  });
+};
+
+// Reject sign-in while the account is locked, without checking the password
+export const assertNotLocked = async (req: Request, user: ProtectedUser) => {
+  if (user.lockedUntil && user.lockedUntil > new Date()) {
+    await recordLoginAttempt(req, {
+      email: user.email,
+      userId: user.id,
+      success: false,
+      reason: 'ACCOUNT_LOCKED',
+    });
+
+    const retryAfter = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000);
+    throw ErrorUtil.createError(
+      `Account is temporarily locked. Try again in ${retryAfter} seconds.`,
+      423,
+      'ACCOUNT_LOCKED'
+    );
+  }
+};
+
+// Count a failed password or two-factor code and lock the account once the limit is reached
+export const registerFailedLogin = async (req: Request, user: ProtectedUser, reason: string) => {
+  await recordLoginAttempt(req, {
+    email: user.email,
+    userId: user.id,
+    success: false,
+    reason,
+  });
+
+  const { failedLoginAttempts } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true },
+  });
+
+  if (failedLoginAttempts < MAX_FAILED_ATTEMPTS) {
+    return;
+  }
+
+  const lockedUntil = new Date(Date.now() + getLockoutDuration(failedLoginAttempts));
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lockedUntil },
+  });
+
+  // Notify once when the lockout starts rather than on every extension
+  if (failedLoginAttempts === MAX_FAILED_ATTEMPTS) {
+    await emailService.sendAccountLockedEmail(user.email, user.name, lockedUntil);
+  }
+};
+
+// Clear the failure counter after a complete sign-in
+export const registerSuccessfulLogin = async (req: Request, user: { id: string; email: string }) => {
+  await recordLoginAttempt(req, {
+    email: user.email,
+    userId: user.id,
+    success: true,
+  });
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    },
+  });
+};
+
+// Lift a lockout (Admin)
+export const unlockAccount = async (userId: string) => {
+  return prisma.user.update({
+    where: { id: userId },
+    data: {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    },
+    select: {
+      id: true,
+      email: true,
+      failedLoginAttempts: true,
+      lockedUntil: true,
+    },
+  });
+};
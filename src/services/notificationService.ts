@@ -0,0 +1,26 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { NotificationData } from '../types';
+import { sendNotificationToUser } from './socketService';
+
+const prisma = new PrismaClient();
+
+// Store an in-app notification and push it to the user's open sockets
+export const notifyUser = async (notification: NotificationData) => {
+  const saved = await prisma.notification.create({
+    data: {
+      userId: notification.userId,
+      title: notification.title,
+      message: notification.message,
+      type: notification.type,
+      data: notification.data as Prisma.InputJsonObject | undefined,
+    },
+  });
+
+  sendNotificationToUser(notification.userId, {
+    ...notification,
+    id: saved.id,
+    createdAt: saved.createdAt,
+  });
+
+  return saved;
+};
@@ -0,0 +1,206 @@
+import { PrismaClient } from '@prisma/client';
+import { PaymentProvider, ProviderPaymentState } from '../types';
+import { advancePayment, capturePayment, getPaymentProvider, getPaymentProviders } from './paymentService';
+import { startPaymentReconciliation } from './paymentReconciliationService';
+import { createManualScheduler } from './schedulerService';
+import { notifyUser } from './notificationService';
+
+jest.mock('@prisma/client', () => {
+  const actual = jest.requireActual('@prisma/client');
+  const client = mockCreatePrisma();
+  return { ...actual, PrismaClient: jest.fn(() => client) };
+});
+
+jest.mock('./paymentService', () => ({
+  advancePayment: jest.fn(),
+  capturePayment: jest.fn(),
+  getPaymentProvider: jest.fn(),
+  getPaymentProviders: jest.fn(),
+}));
+jest.mock('./notificationService', () => ({ notifyUser: jest.fn() }));
+jest.mock('./socketService', () => ({ sendOrderUpdate: jest.fn() }));
+jest.mock('./emailService', () => ({ __esModule: true, default: { sendOrderStatusEmail: jest.fn() } }));
+
+// Only the queries the reconciliation job makes itself; payment state changes go through the mocked paymentService
+function mockCreatePrisma() {
+  const client: any = {
+    paymentTransaction: { findMany: jest.fn() },
+    order: { findMany: jest.fn(), updateMany: jest.fn() },
+    product: { update: jest.fn() },
+    orderStatusHistory: { create: jest.fn() },
+  };
+  client.$transaction = jest.fn((run: (tx: unknown) => unknown) => run(client));
+  return client;
+}
+
+const db = new PrismaClient() as any;
+
+const NOW = new Date('2026-01-15T12:00:00.000Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+const fakeProvider = {
+  method: 'BKASH',
+  name: 'FakePay',
+  settlesOnDelivery: false,
+  query: jest.fn(),
+} as unknown as PaymentProvider;
+
+const codProvider = { method: 'CASH_ON_DELIVERY', settlesOnDelivery: true } as PaymentProvider;
+
+// A pending payment attempt for one order; checkout payments share the providerPaymentId
+const attempt = (key: string, createdMinutesAgo: number, providerPaymentId = `PAY-${key}`) => ({
+  id: `payment-${key}`,
+  orderId: `order-${key}`,
+  provider: 'BKASH',
+  status: 'INITIATED',
+  providerPaymentId,
+  createdAt: minutesAgo(createdMinutesAgo),
+  order: { id: `order-${key}`, orderNumber: `ORD-${key}`, buyerId: 'buyer-1' },
+});
+
+// An unpaid order past the timeout, with two products to give back
+const unpaidOrder = (key: string) => ({
+  id: `order-${key}`,
+  orderNumber: `ORD-${key}`,
+  buyerId: 'buyer-1',
+  storeId: 'store-1',
+  status: 'PROCESSING',
+  total: 500,
+  items: [
+    { productId: `product-${key}-a`, quantity: 2, price: 150, product: { title: 'Kettle' } },
+    { productId: `product-${key}-b`, quantity: 1, price: 200, product: { title: 'Mug' } },
+  ],
+  buyer: { name: 'Rahim', email: 'rahim@example.com' },
+  store: { name: 'Dhaka Gadgets' },
+});
+
+const reportStatus = (status: ProviderPaymentState['status']) => {
+  (fakeProvider.query as jest.Mock).mockImplementation(async (providerPaymentId: string) => ({
+    providerPaymentId,
+    status,
+    providerStatus: status,
+  }));
+};
+
+const runReconciliation = async () => {
+  const scheduler = startPaymentReconciliation(createManualScheduler(), {
+    now: NOW,
+    pendingThresholdMinutes: 15,
+    unpaidOrderTimeoutMinutes: 60,
+  }) as ReturnType<typeof createManualScheduler>;
+
+  const results = await scheduler.runAll();
+  return results['payment-reconciliation'] as any;
+};
+
+beforeEach(() => {
+  db.paymentTransaction.findMany.mockResolvedValue([]);
+  db.order.findMany.mockResolvedValue([]);
+  db.order.updateMany.mockResolvedValue({ count: 1 });
+
+  (getPaymentProvider as jest.Mock).mockReturnValue(fakeProvider);
+  (getPaymentProviders as jest.Mock).mockReturnValue([fakeProvider, codProvider]);
+
+  // Attempts simply take the state they are given
+  (advancePayment as jest.Mock).mockImplementation(async (rows: any[], state: ProviderPaymentState) =>
+    rows.map((row) => ({ ...row, status: state.status, providerStatus: state.providerStatus }))
+  );
+  (capturePayment as jest.Mock).mockImplementation(async (_provider: unknown, rows: any[]) =>
+    rows.map((row) => ({ ...row, status: 'CAPTURED' }))
+  );
+});
+
+describe('payment reconciliation job', () => {
+  it('captures payments the buyer approved but that were never executed', async () => {
+    db.paymentTransaction.findMany.mockResolvedValue([attempt('approved', 30)]);
+    reportStatus('AUTHORIZED');
+
+    const results = await runReconciliation();
+
+    expect(capturePayment).toHaveBeenCalledWith(
+      fakeProvider,
+      [expect.objectContaining({ id: 'payment-approved', status: 'AUTHORIZED' })],
+      'reconciliation'
+    );
+    expect(results.payments).toEqual({ checked: 1, captured: 1, failed: 0, pending: 0, errors: 0 });
+    expect(notifyUser).toHaveBeenCalledWith(expect.objectContaining({ title: 'Payment received' }));
+  });
+
+  it('asks about a checkout payment once and captures all of its orders together', async () => {
+    db.paymentTransaction.findMany.mockResolvedValue([
+      attempt('first', 30, 'PAY-checkout'),
+      attempt('second', 30, 'PAY-checkout'),
+    ]);
+    reportStatus('AUTHORIZED');
+
+    const results = await runReconciliation();
+
+    expect(fakeProvider.query).toHaveBeenCalledTimes(1);
+    expect(capturePayment).toHaveBeenCalledTimes(1);
+    expect((capturePayment as jest.Mock).mock.calls[0][1].map((row: any) => row.id)).toEqual([
+      'payment-first',
+      'payment-second',
+    ]);
+    expect(results.payments).toMatchObject({ checked: 1, captured: 1 });
+    expect(notifyUser).toHaveBeenCalledTimes(1);
+    expect(notifyUser).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Your FakePay payment for orders #ORD-first, #ORD-second has been confirmed',
+    }));
+  });
+
+  it('gives up on attempts left open past the unpaid order timeout and leaves recent ones open', async () => {
+    db.paymentTransaction.findMany.mockResolvedValue([attempt('abandoned', 90), attempt('recent', 30)]);
+    reportStatus('INITIATED');
+
+    const results = await runReconciliation();
+
+    expect(capturePayment).not.toHaveBeenCalled();
+    expect(advancePayment).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'payment-abandoned' })],
+      expect.objectContaining({ status: 'FAILED', providerStatus: 'Expired' }),
+      'reconciliation'
+    );
+    expect(advancePayment).not.toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'payment-recent' })],
+      expect.objectContaining({ status: 'FAILED' }),
+      'reconciliation'
+    );
+    expect(results.payments).toEqual({ checked: 2, captured: 0, failed: 1, pending: 1, errors: 0 });
+  });
+
+  it('cancels unpaid prepaid orders and restocks their products', async () => {
+    db.order.findMany.mockResolvedValue([unpaidOrder('unpaid')]);
+
+    const results = await runReconciliation();
+
+    // Cash-on-delivery orders and orders with an open attempt are never picked
+    const { where } = db.order.findMany.mock.calls[0][0];
+    expect(where.paymentMethod).toEqual({ in: ['BKASH'] });
+    expect(where.payments).toEqual({ none: { status: { in: ['INITIATED', 'AUTHORIZED', 'CAPTURED'] } } });
+
+    expect(db.order.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ id: 'order-unpaid', status: 'PROCESSING' }),
+      data: { status: 'CANCELLED' },
+    }));
+    expect(db.product.update.mock.calls.map(([call]: any[]) => [call.where.id, call.data.stock.increment])).toEqual([
+      ['product-unpaid-a', 2],
+      ['product-unpaid-b', 1],
+    ]);
+    expect(db.orderStatusHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orderId: 'order-unpaid', status: 'CANCELLED' }),
+    });
+    expect(results.orders).toEqual({ checked: 1, cancelled: 1 });
+  });
+
+  it('never restocks an order that was paid or moved on during the run', async () => {
+    db.order.findMany.mockResolvedValue([unpaidOrder('late')]);
+    db.order.updateMany.mockResolvedValue({ count: 0 });
+
+    const results = await runReconciliation();
+
+    expect(db.product.update).not.toHaveBeenCalled();
+    expect(db.orderStatusHistory.create).not.toHaveBeenCalled();
+    expect(notifyUser).not.toHaveBeenCalled();
+    expect(results.orders).toEqual({ checked: 1, cancelled: 0 });
+  });
+});
@@ -0,0 +1,256 @@
+import { PrismaClient, OrderStatus, PaymentTransactionStatus } from '@prisma/client';
+import { Scheduler } from '../types';
+import {
+  advancePayment,
+  capturePayment,
+  getPaymentProvider,
+  getPaymentProviders,
+  TransactionWithOrder
+} from './paymentService';
+import { createIntervalScheduler } from './schedulerService';
+import { notifyUser } from './notificationService';
+import { sendOrderUpdate } from './socketService';
+import emailService from './emailService';
+
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+// Rows handled per run; anything left over is picked up by the next run
+const BATCH_SIZE = 100;
+
+// Unpaid orders are only cancelled before they leave the store
+const CANCELLABLE_STATUSES: OrderStatus[] = ['PENDING_APPROVAL', 'PROCESSING'];
+// Attempts that may still turn into money; their orders are left alone
+const OPEN_PAYMENT_STATUSES: PaymentTransactionStatus[] = ['INITIATED', 'AUTHORIZED', 'CAPTURED'];
+
+interface ReconciliationOptions {
+  now?: Date;
+  pendingThresholdMinutes?: number;
+  unpaidOrderTimeoutMinutes?: number;
+}
+
+// Settings are read per run so they can be changed without a code change
+const getSettings = (options: ReconciliationOptions) => ({
+  now: options.now ?? new Date(),
+  pendingThresholdMs: (options.pendingThresholdMinutes ??
+    parseInt(process.env.PAYMENT_PENDING_THRESHOLD_MINUTES || '15')) * MINUTE_MS,
+  unpaidOrderTimeoutMs: (options.unpaidOrderTimeoutMinutes ??
+    parseInt(process.env.UNPAID_ORDER_TIMEOUT_MINUTES || '60')) * MINUTE_MS,
+});
+
+// Ask providers about attempts that have been waiting longer than the threshold and settle them
+export const reconcilePendingPayments = async (options: ReconciliationOptions = {}) => {
+  const { now, pendingThresholdMs, unpaidOrderTimeoutMs } = getSettings(options);
+
+  const transactions = await prisma.paymentTransaction.findMany({
+    where: {
+      status: { in: ['INITIATED', 'AUTHORIZED'] },
+      providerPaymentId: { not: null },
+      createdAt: { lt: new Date(now.getTime() - pendingThresholdMs) },
+    },
+    include: { order: true },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  // A checkout payment has one row per order under the same provider payment, so each payment is asked about once
+  const payments = new Map<string, TransactionWithOrder[]>();
+  for (const transaction of transactions) {
+    const key = `${transaction.provider}:${transaction.providerPaymentId}`;
+    payments.set(key, [...(payments.get(key) ?? []), transaction]);
+  }
+
+  const summary = { checked: payments.size, captured: 0, failed: 0, pending: 0, errors: 0 };
+
+  for (const payment of payments.values()) {
+    const [first] = payment;
+
+    try {
+      const provider = getPaymentProvider(first.provider);
+      const providerPaymentId = first.providerPaymentId!;
+
+      let updated = await advancePayment(payment, await provider.query(providerPaymentId), 'reconciliation');
+
+      // Approved by the buyer but never executed, e.g. the capture after the callback failed
+      if (updated.some((transaction) => transaction.status === 'AUTHORIZED')) {
+        updated = await capturePayment(provider, updated, 'reconciliation');
+      }
+
+      // Attempts the buyer never finished are given up once their orders would be cancelled anyway
+      if (updated[0].status === 'INITIATED' && now.getTime() - first.createdAt.getTime() > unpaidOrderTimeoutMs) {
+        updated = await advancePayment(
+          updated,
+          { providerPaymentId, status: 'FAILED', providerStatus: 'Expired' },
+          'reconciliation'
+        );
+      }
+
+      const { status } = updated[0];
+
+      if (status === 'CAPTURED') summary.captured += 1;
+      else if (status === 'FAILED') summary.failed += 1;
+      else summary.pending += 1;
+
+      if (status === 'CAPTURED' || status === 'FAILED') {
+        const paid = status === 'CAPTURED';
+        const orderNumbers = payment.map((transaction) => `#${transaction.order.orderNumber}`).join(', ');
+        const subject = payment.length > 1 ? `orders ${orderNumbers}` : `order ${orderNumbers}`;
+
+        await notifyUser({
+          userId: first.order.buyerId,
+          title: paid ? 'Payment received' : 'Payment failed',
+          message: paid
+            ? `Your ${provider.name} payment for ${subject} has been confirmed`
+            : `Your ${provider.name} payment for ${subject} did not go through`,
+          type: 'payment',
+          data: {
+            orderId: first.orderId,
+            orderIds: payment.map((transaction) => transaction.orderId),
+            transactionId: first.id,
+            status,
+          },
+        });
+      }
+    } catch (error) {
+      summary.errors += 1;
+      console.error(`Reconciling payment ${first.providerPaymentId} failed:`, error);
+    }
+  }
+
+  return summary;
+};
+
+// Cancel orders that were never paid for within the timeout and give their stock back
+export const cancelUnpaidOrders = async (options: ReconciliationOptions = {}) => {
+  const { now, unpaidOrderTimeoutMs } = getSettings(options);
+
+  // Cash-on-delivery orders are paid at the door, so only up-front providers can leave an order unpaid
+  const prepaidMethods = getPaymentProviders()
+    .filter((provider) => !provider.settlesOnDelivery)
+    .map((provider) => provider.method);
+
+  const unpaidWhere = {
+    paymentMethod: { in: prepaidMethods },
+    paymentStatus: { in: ['PENDING' as const, 'FAILED' as const] },
+    createdAt: { lt: new Date(now.getTime() - unpaidOrderTimeoutMs) },
+    payments: { none: { status: { in: OPEN_PAYMENT_STATUSES } } },
+  };
+
+  const orders = await prisma.order.findMany({
+    where: {
+      ...unpaidWhere,
+      status: { in: CANCELLABLE_STATUSES },
+    },
+    include: {
+      items: {
+        include: {
+          product: { select: { title: true } },
+        },
+      },
+      buyer: { select: { name: true, email: true } },
+      store: { select: { name: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  const notes = `Cancelled automatically: payment was not received within ${Math.round(unpaidOrderTimeoutMs / MINUTE_MS)} minutes`;
+  let cancelled = 0;
+
+  for (const order of orders) {
+    try {
+      const wasCancelled = await prisma.$transaction(async (tx) => {
+        // Skip the order if it was paid, moved on or given a new payment attempt in the meantime
+        const updated = await tx.order.updateMany({
+          where: { ...unpaidWhere, id: order.id, status: order.status },
+          data: { status: 'CANCELLED' },
+        });
+
+        if (updated.count === 0) {
+          return false;
+        }
+
+        for (const item of order.items) {
+          await tx.product.update({
+            where: { id: item.productId },
+            data: { stock: { increment: item.quantity } },
+          });
+        }
+
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId: order.id,
+            status: 'CANCELLED',
+            notes,
+          },
+        });
+
+        return true;
+      });
+
+      if (!wasCancelled) {
+        continue;
+      }
+
+      cancelled += 1;
+
+      sendOrderUpdate(order.buyerId, order.storeId, {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        status: 'CANCELLED',
+        previousStatus: order.status,
+        notes,
+        changedBy: null,
+      });
+
+      await notifyUser({
+        userId: order.buyerId,
+        title: 'Order cancelled',
+        message: `Order #${order.orderNumber} was cancelled because its payment was not received in time`,
+        type: 'order_status',
+        data: { orderId: order.id, status: 'CANCELLED' },
+      });
+
+      await emailService.sendOrderStatusEmail(order.buyer.email, {
+        orderNumber: order.orderNumber,
+        status: 'CANCELLED',
+        buyerName: order.buyer.name,
+        sellerName: order.store.name,
+        total: Number(order.total),
+        items: order.items.map((item) => ({
+          name: item.product.title,
+          quantity: item.quantity,
+          price: Number(item.price),
+        })),
+      });
+    } catch (error) {
+      console.error(`Cancelling unpaid order ${order.id} failed:`, error);
+    }
+  }
+
+  return { checked: orders.length, cancelled };
+};
+
+// One reconciliation pass: settle stuck payments first so paid orders are never cancelled
+export const runPaymentReconciliation = async (options: ReconciliationOptions = {}) => {
+  const payments = await reconcilePendingPayments(options);
+  const orders = await cancelUnpaidOrders(options);
+
+  return { payments, orders };
+};
+
+// Schedule the reconciliation job; pass another scheduler and options to drive it from tests or an external runner
+export const startPaymentReconciliation = (
+  scheduler: Scheduler = createIntervalScheduler(),
+  options: ReconciliationOptions = {}
+) => {
+  if (process.env.PAYMENT_RECONCILIATION_ENABLED !== 'false') {
+    scheduler.schedule({
+      name: 'payment-reconciliation',
+      intervalMs: parseInt(process.env.PAYMENT_RECONCILIATION_INTERVAL_MS || '300000'), // 5 minutes
+      run: () => runPaymentReconciliation(options),
+    });
+  }
+
+  return scheduler;
+};
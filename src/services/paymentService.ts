@@ -0,0 +1,408 @@
+import { PrismaClient, Prisma, Checkout, Order, PaymentMethod, PaymentTransaction } from '@prisma/client';
+import { PaymentProvider, ProviderPaymentState } from '../types';
+import { ErrorUtil, PaymentTransactionUtil, PriceUtil } from '../utils';
+import { bkashProvider } from './bkashService';
+import { codProvider } from './codService';
+import { sendPaymentUpdate } from './socketService';
+
+const prisma = new PrismaClient();
+
+// Payment providers keyed by the payment method they collect
+const providers = new Map<PaymentMethod, PaymentProvider>();
+
+export const registerPaymentProvider = (provider: PaymentProvider) => {
+  providers.set(provider.method, provider);
+};
+
+registerPaymentProvider(bkashProvider);
+registerPaymentProvider(codProvider);
+
+export const getPaymentProvider = (method: PaymentMethod) => {
+  const provider = providers.get(method);
+
+  if (!provider) {
+    throw ErrorUtil.createError(`No payment provider is configured for ${method}`, 400, 'PAYMENT_METHOD_UNSUPPORTED');
+  }
+
+  return provider;
+};
+
+export const getPaymentProviders = () => Array.from(providers.values());
+
+// Provider named in a URL, e.g. "bkash" in /api/payments/bkash/callback
+export const getPaymentProviderBySlug = (slug: string) => {
+  const provider = Array.from(providers.values()).find((candidate) => candidate.slug === slug);
+
+  if (!provider) {
+    throw ErrorUtil.createNotFoundError('Payment provider');
+  }
+
+  return provider;
+};
+
+export type TransactionWithOrder = PaymentTransaction & { order: Order };
+
+// Relations returned with every transaction in the ledger
+export const transactionInclude = {
+  events: {
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+// What one payment is for: a single order, or every order of a checkout paid together
+export interface PaymentTarget {
+  orders: Order[];
+  checkout: Checkout | null;
+}
+
+// Every transaction of one provider payment; a checkout payment has one per order
+export const findPaymentTransactions = (
+  provider: PaymentProvider,
+  providerPaymentId: string
+): Promise<TransactionWithOrder[]> => {
+  return prisma.paymentTransaction.findMany({
+    where: { provider: provider.method, providerPaymentId },
+    include: { order: true },
+    orderBy: { createdAt: 'asc' },
+  });
+};
+
+// The payment created for an idempotency key, returned as it was the first time
+export const findPaymentByIdempotencyKey = async (idempotencyKey: string, target: PaymentTarget) => {
+  const transaction = await prisma.paymentTransaction.findUnique({
+    where: { idempotencyKey },
+  });
+
+  if (!transaction) {
+    return null;
+  }
+
+  const sameTarget = transaction.checkoutId === (target.checkout?.id ?? null) &&
+    target.orders.some((order) => order.id === transaction.orderId);
+
+  if (!sameTarget) {
+    throw ErrorUtil.createError('This idempotency key was already used for another order', 409, 'IDEMPOTENCY_KEY_REUSED');
+  }
+
+  const details = transaction.details as Prisma.JsonObject | null;
+
+  // Details are filled in once the provider has answered the first request
+  if (!details || !transaction.providerPaymentId) {
+    throw ErrorUtil.createError('A payment request with this idempotency key is still in progress', 409, 'IDEMPOTENCY_KEY_IN_USE');
+  }
+
+  const transactions = await prisma.paymentTransaction.findMany({
+    where: { provider: transaction.provider, providerPaymentId: transaction.providerPaymentId },
+    include: { order: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return { transactions, redirectUrl: (details.redirectUrl as string | null | undefined) ?? null };
+};
+
+// Start a new payment with the provider of the orders' payment method, charging their combined total
+export const initiatePayment = async (target: PaymentTarget, payerReference: string, idempotencyKey?: string) => {
+  const { orders, checkout } = target;
+  const provider = getPaymentProvider(orders[0].paymentMethod);
+  const orderIds = orders.map((order) => order.id);
+
+  // A new attempt could charge the buyer a second time while an earlier one is approved or paid
+  const settling = await prisma.paymentTransaction.findFirst({
+    where: { orderId: { in: orderIds }, status: { in: ['AUTHORIZED', 'CAPTURED'] } },
+    select: { status: true },
+  });
+
+  if (settling?.status === 'CAPTURED') {
+    throw ErrorUtil.createError('This order has already been paid', 409, 'ALREADY_PAID');
+  }
+
+  if (settling) {
+    throw ErrorUtil.createError('A payment for this order was approved and is being completed', 409, 'PAYMENT_IN_PROGRESS');
+  }
+
+  // The key is claimed before the provider is called, so concurrent retries cannot start two payments
+  let transactions: PaymentTransaction[];
+  try {
+    transactions = await prisma.$transaction(
+      orders.map((order, index) =>
+        prisma.paymentTransaction.create({
+          data: {
+            orderId: order.id,
+            checkoutId: checkout?.id,
+            provider: provider.method,
+            amount: order.total,
+            // One transaction per payment holds the key
+            idempotencyKey: index === 0 ? idempotencyKey : undefined,
+            events: {
+              create: { toStatus: 'INITIATED', source: 'initiate' },
+            },
+          },
+        })
+      )
+    );
+  } catch (error) {
+    if (idempotencyKey && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return (await findPaymentByIdempotencyKey(idempotencyKey, target))!;
+    }
+    throw error;
+  }
+
+  const transactionIds = transactions.map((transaction) => transaction.id);
+
+  let initiation;
+  try {
+    initiation = await provider.initiate({
+      orderNumber: checkout?.checkoutNumber ?? orders[0].orderNumber,
+      amount: PriceUtil.round(orders.reduce((sum, order) => sum + Number(order.total), 0)),
+      currency: transactions[0].currency,
+      payerReference,
+      callbackURL: `${process.env.SERVER_URL}/api/payments/${provider.slug}/callback`,
+    });
+  } catch (error) {
+    // Nothing was started with the provider, so the key is released for the client to retry with
+    await prisma.paymentTransaction.deleteMany({ where: { id: { in: transactionIds } } });
+    throw error;
+  }
+
+  // Earlier attempts stay on record; whichever one the provider captures pays the orders
+  const started = await prisma.$transaction(async (tx) => {
+    await tx.order.updateMany({
+      where: { id: { in: orderIds } },
+      data: { paymentStatus: 'PENDING' },
+    });
+
+    await tx.paymentTransaction.updateMany({
+      where: { id: { in: transactionIds } },
+      data: {
+        providerPaymentId: initiation.providerPaymentId,
+        providerStatus: initiation.providerStatus,
+        details: {
+          ...initiation.details,
+          redirectUrl: initiation.redirectUrl,
+        } as Prisma.InputJsonObject,
+      },
+    });
+
+    return tx.paymentTransaction.findMany({
+      where: { id: { in: transactionIds } },
+      include: { order: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  });
+
+  return { transactions: started, redirectUrl: initiation.redirectUrl };
+};
+
+// Move a transaction to the state its provider reports and notify the buyer and the store.
+// Transactions only move forward, so replayed or out-of-order reports change nothing.
+export const advanceTransaction = async (
+  transaction: TransactionWithOrder,
+  state: ProviderPaymentState,
+  source: string
+): Promise<TransactionWithOrder> => {
+  const { order } = transaction;
+
+  const advanced = await prisma.$transaction(async (tx) => {
+    let current = transaction.status;
+    let moved = false;
+
+    while (!moved && PaymentTransactionUtil.canAdvance(current, state.status)) {
+      // Only apply the change if nobody else moved the transaction in the meantime
+      const updated = await tx.paymentTransaction.updateMany({
+        where: { id: transaction.id, status: current },
+        data: {
+          status: state.status,
+          providerStatus: state.providerStatus,
+          ...(state.providerTransactionId && { providerTransactionId: state.providerTransactionId }),
+          ...(state.completedAt && {
+            details: {
+              ...((transaction.details ?? {}) as Prisma.JsonObject),
+              completedAt: state.completedAt,
+            },
+          }),
+        },
+      });
+
+      if (updated.count > 0) {
+        await tx.paymentTransactionEvent.create({
+          data: {
+            transactionId: transaction.id,
+            fromStatus: current,
+            toStatus: state.status,
+            source,
+            providerStatus: state.providerStatus,
+          },
+        });
+        moved = true;
+      } else {
+        const latest = await tx.paymentTransaction.findUniqueOrThrow({
+          where: { id: transaction.id },
+          select: { status: true },
+        });
+        current = latest.status;
+      }
+    }
+
+    if (!moved) {
+      return false;
+    }
+
+    if (state.status === 'CAPTURED') {
+      // Captured money pays the order even if a later retry failed
+      await tx.order.updateMany({
+        where: {
+          id: order.id,
+          paymentStatus: { in: ['PENDING', 'FAILED'] },
+          status: { notIn: ['CANCELLED', 'REJECTED'] },
+        },
+        data: { paymentStatus: 'COMPLETED' },
+      });
+    }
+
+    if (state.status === 'FAILED') {
+      // A failed attempt only fails the order when the buyer has not started another one since
+      const latestAttempt = await tx.paymentTransaction.findFirst({
+        where: { orderId: order.id },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true },
+      });
+
+      if (latestAttempt?.id === transaction.id) {
+        await tx.order.updateMany({
+          where: { id: order.id, paymentStatus: 'PENDING' },
+          data: { paymentStatus: 'FAILED' },
+        });
+      }
+    }
+
+    return true;
+  });
+
+  const updatedTransaction = await prisma.paymentTransaction.findUniqueOrThrow({
+    where: { id: transaction.id },
+    include: { order: true },
+  });
+
+  if (advanced) {
+    sendPaymentUpdate(order.buyerId, order.storeId, {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      paymentMethod: order.paymentMethod,
+      paymentStatus: updatedTransaction.order.paymentStatus,
+      transactionId: transaction.id,
+      transactionStatus: updatedTransaction.status,
+      providerTransactionId: updatedTransaction.providerTransactionId,
+    });
+  }
+
+  return updatedTransaction;
+};
+
+// Move every transaction of a payment to the state its provider reports
+export const advancePayment = async (
+  transactions: TransactionWithOrder[],
+  state: ProviderPaymentState,
+  source: string
+) => {
+  const advanced: TransactionWithOrder[] = [];
+
+  for (const transaction of transactions) {
+    advanced.push(await advanceTransaction(transaction, state, source));
+  }
+
+  return advanced;
+};
+
+// Capture an approved payment; settled transactions are returned as they are instead of being executed again
+export const capturePayment = async (provider: PaymentProvider, transactions: TransactionWithOrder[], source: string) => {
+  const providerPaymentId = transactions[0]?.providerPaymentId;
+
+  if (!providerPaymentId || !transactions.some((transaction) => PaymentTransactionUtil.canAdvance(transaction.status, 'CAPTURED'))) {
+    return transactions;
+  }
+
+  const orderIds = transactions.map((transaction) => transaction.orderId);
+
+  // An order is charged once; another approved attempt is dropped instead of executed, so the provider never takes the money
+  const paid = await prisma.paymentTransaction.findFirst({
+    where: {
+      orderId: { in: orderIds },
+      id: { notIn: transactions.map((transaction) => transaction.id) },
+      status: { in: ['CAPTURED', 'REFUNDED'] },
+    },
+    select: { id: true },
+  });
+
+  if (paid) {
+    return advancePayment(
+      transactions,
+      { providerPaymentId, status: 'FAILED', providerStatus: 'Duplicate' },
+      source
+    );
+  }
+
+  // Orders cancelled or rejected after the buyer started paying are not charged either
+  const closed = await prisma.order.findFirst({
+    where: { id: { in: orderIds }, status: { in: ['CANCELLED', 'REJECTED'] } },
+    select: { id: true },
+  });
+
+  if (closed) {
+    return advancePayment(
+      transactions,
+      { providerPaymentId, status: 'FAILED', providerStatus: 'OrderClosed' },
+      source
+    );
+  }
+
+  return advancePayment(transactions, await provider.confirm(providerPaymentId), source);
+};
+
+// Handle a provider callback or webhook; a payment that is still open is captured straight away
+export const processCallback = async (provider: PaymentProvider, payload: Record<string, unknown>) => {
+  const state = await provider.verifyWebhook(payload);
+  const transactions = await findPaymentTransactions(provider, state.providerPaymentId);
+
+  if (transactions.length === 0) {
+    throw ErrorUtil.createNotFoundError('Payment');
+  }
+
+  const updated = await advancePayment(transactions, state, 'callback');
+
+  // A callback cannot prove the buyer approved, so an open payment is captured and the provider decides;
+  // it refuses payments that were never approved and they stay open for another attempt
+  try {
+    return await capturePayment(provider, updated, 'execute');
+  } catch (error) {
+    // The payment stays open and is captured by a later callback, query or reconciliation
+    console.error(`Capturing ${provider.name} payment ${state.providerPaymentId} failed:`, error);
+    return updated;
+  }
+};
+
+// The attempt an order's money was captured through
+export const findCapturedTransaction = (orderId: string) => {
+  return prisma.paymentTransaction.findFirst({
+    where: { orderId, status: 'CAPTURED' },
+    orderBy: { createdAt: 'desc' },
+  });
+};
+
+// Close a captured transaction once every taka of it has been refunded
+export const markTransactionRefunded = async (client: Prisma.TransactionClient, transactionId: string) => {
+  const updated = await client.paymentTransaction.updateMany({
+    where: { id: transactionId, status: 'CAPTURED' },
+    data: { status: 'REFUNDED' },
+  });
+
+  if (updated.count > 0) {
+    await client.paymentTransactionEvent.create({
+      data: {
+        transactionId,
+        fromStatus: 'CAPTURED',
+        toStatus: 'REFUNDED',
+        source: 'refund',
+      },
+    });
+  }
+};
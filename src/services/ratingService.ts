@@ -0,0 +1,45 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Recompute a product's rating aggregates from its reviews
+export const refreshProductRating = async (
+  productId: string,
+  client: Prisma.TransactionClient = prisma
+) => {
+  // Lock the product row so concurrent review changes recompute one after another
+  await client.$queryRaw`SELECT "id" FROM "products" WHERE "id" = ${productId} FOR UPDATE`;
+
+  const ratingGroups = await client.review.groupBy({
+    by: ['rating'],
+    where: { productId },
+    _count: { _all: true },
+  });
+
+  // Index 0 holds the number of 1 star reviews
+  const ratingCounts = [0, 0, 0, 0, 0];
+  for (const group of ratingGroups) {
+    ratingCounts[group.rating - 1] = group._count._all;
+  }
+
+  const reviewCount = ratingCounts.reduce((sum, count) => sum + count, 0);
+  const ratingTotal = ratingCounts.reduce((sum, count, index) => sum + count * (index + 1), 0);
+
+  return client.product.update({
+    where: { id: productId },
+    data: {
+      reviewCount,
+      ratingCounts,
+      avgRating: reviewCount > 0 ? Math.round((ratingTotal / reviewCount) * 100) / 100 : 0,
+    },
+    select: { id: true, avgRating: true, reviewCount: true, ratingCounts: true },
+  });
+};
+
+// Shape the stored star counts for API responses
+export const getRatingDistribution = (ratingCounts: number[]) => {
+  return [1, 2, 3, 4, 5].reduce((distribution, star) => {
+    distribution[star] = ratingCounts[star - 1] || 0;
+    return distribution;
+  }, {} as Record<number, number>);
+};
@@ -0,0 +1,343 @@
+import { PrismaClient, Prisma, PaymentStatus } from '@prisma/client';
+import { ErrorUtil } from '../utils';
+import { getPaymentProvider, findCapturedTransaction, markTransactionRefunded } from './paymentService';
+import { notifyUser } from './notificationService';
+import { sendPaymentUpdate } from './socketService';
+import emailService from './emailService';
+
+const prisma = new PrismaClient();
+
+// Orders can only be refunded once the buyer has actually paid
+const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = ['COMPLETED', 'PARTIALLY_REFUNDED'];
+
+interface RefundRequest {
+  type: 'FULL' | 'PARTIAL';
+  items?: { orderItemId: string; quantity: number }[];
+  reason: string;
+  reference?: string;
+}
+
+interface RefundLine {
+  orderItemId: string;
+  quantity: number;
+  cents: number;
+}
+
+const toCents = (amount: Prisma.Decimal | number) => Math.round(Number(amount) * 100);
+
+// Relations returned with every refund
+export const refundInclude = {
+  items: {
+    include: {
+      orderItem: {
+        select: {
+          id: true,
+          quantity: true,
+          price: true,
+          product: { select: { id: true, title: true, sku: true } },
+        },
+      },
+    },
+  },
+  issuedBy: {
+    select: { id: true, name: true, role: true },
+  },
+};
+
+const loadRefundableOrder = async (orderId: string) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: true,
+      buyer: { select: { id: true, name: true, email: true } },
+    },
+  });
+
+  if (!order) {
+    throw ErrorUtil.createNotFoundError('Order');
+  }
+
+  return order;
+};
+
+type RefundableOrder = Awaited<ReturnType<typeof loadRefundableOrder>>;
+
+// Items and quantities covered by the refund, priced at what the buyer paid for them
+const resolveRefundLines = (order: RefundableOrder, request: RefundRequest): RefundLine[] => {
+  const itemsById = new Map(order.items.map((item) => [item.id, item]));
+
+  if (request.type === 'FULL') {
+    return order.items
+      .filter((item) => item.quantity > item.refundedQuantity)
+      .map((item) => {
+        const quantity = item.quantity - item.refundedQuantity;
+        return { orderItemId: item.id, quantity, cents: toCents(item.price) * quantity };
+      });
+  }
+
+  // The same item listed twice is refunded once for the combined quantity
+  const quantities = new Map<string, number>();
+  for (const { orderItemId, quantity } of request.items ?? []) {
+    quantities.set(orderItemId, (quantities.get(orderItemId) ?? 0) + quantity);
+  }
+
+  return Array.from(quantities, ([orderItemId, quantity]) => {
+    const item = itemsById.get(orderItemId);
+
+    if (!item) {
+      throw ErrorUtil.createValidationError('items', `Item ${orderItemId} does not belong to this order`);
+    }
+
+    const refundableQuantity = item.quantity - item.refundedQuantity;
+    if (quantity > refundableQuantity) {
+      throw ErrorUtil.createValidationError(
+        'items',
+        `Only ${refundableQuantity} of item ${orderItemId} can still be refunded`
+      );
+    }
+
+    return { orderItemId, quantity, cents: toCents(item.price) * quantity };
+  });
+};
+
+// Payment status implied by the refunds that have gone through
+const syncRefundPaymentStatus = async (tx: Prisma.TransactionClient, orderId: string, totalCents: number) => {
+  const completed = await tx.refund.aggregate({
+    where: { orderId, status: 'COMPLETED' },
+    _sum: { amount: true },
+  });
+
+  const refundedCents = toCents(completed._sum.amount ?? 0);
+
+  let paymentStatus: PaymentStatus = 'COMPLETED';
+  if (refundedCents >= totalCents) paymentStatus = 'REFUNDED';
+  else if (refundedCents > 0) paymentStatus = 'PARTIALLY_REFUNDED';
+
+  await tx.order.update({
+    where: { id: orderId },
+    data: { paymentStatus },
+  });
+
+  return paymentStatus;
+};
+
+type PendingRefund = Prisma.RefundGetPayload<{ include: { items: true } }>;
+
+// Give the reserved amount and quantities back once the refund is known not to have gone through
+const releaseRefund = async (refund: PendingRefund, failureReason: string) => {
+  return prisma.$transaction(async (tx) => {
+    const released = await tx.refund.updateMany({
+      where: { id: refund.id, status: 'PENDING' },
+      data: { status: 'FAILED', failureReason },
+    });
+
+    if (released.count === 0) {
+      return false;
+    }
+
+    await tx.order.update({
+      where: { id: refund.orderId },
+      data: { refundedAmount: { decrement: refund.amount } },
+    });
+
+    for (const item of refund.items) {
+      await tx.orderItem.update({
+        where: { id: item.orderItemId },
+        data: { refundedQuantity: { decrement: item.quantity } },
+      });
+    }
+
+    return true;
+  });
+};
+
+// Record a refund the provider carried out and tell the buyer and the store about it
+const completeRefund = async (order: RefundableOrder, refund: PendingRefund, reference: string | null) => {
+  const payment = await findCapturedTransaction(order.id);
+
+  const paymentStatus = await prisma.$transaction(async (tx) => {
+    const completed = await tx.refund.updateMany({
+      where: { id: refund.id, status: 'PENDING' },
+      data: { status: 'COMPLETED', reference, completedAt: new Date() },
+    });
+
+    if (completed.count === 0) {
+      throw ErrorUtil.createError('This refund has already been resolved', 409, 'REFUND_ALREADY_RESOLVED');
+    }
+
+    const paymentStatus = await syncRefundPaymentStatus(tx, order.id, toCents(order.total));
+
+    if (paymentStatus === 'REFUNDED') {
+      if (payment) {
+        await markTransactionRefunded(tx, payment.id);
+      }
+
+      // Reviews backed by a purchase that was fully refunded no longer count as verified
+      await tx.review.updateMany({
+        where: { orderId: order.id },
+        data: { isVerifiedPurchase: false },
+      });
+    }
+
+    return paymentStatus;
+  });
+
+  const amount = Number(refund.amount);
+
+  await notifyUser({
+    userId: order.buyerId,
+    title: 'Refund issued',
+    message: `৳${amount.toLocaleString()} has been refunded for order #${order.orderNumber}`,
+    type: 'payment',
+    data: { orderId: order.id, refundId: refund.id, amount },
+  });
+
+  await emailService.sendRefundEmail(order.buyer.email, {
+    userName: order.buyer.name,
+    orderNumber: order.orderNumber,
+    amount,
+    reason: refund.reason,
+    method: order.paymentMethod,
+  });
+
+  sendPaymentUpdate(order.buyerId, order.storeId, {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    paymentMethod: order.paymentMethod,
+    paymentStatus,
+    refundId: refund.id,
+    refundedAmount: amount,
+  });
+
+  return prisma.refund.findUniqueOrThrow({
+    where: { id: refund.id },
+    include: refundInclude,
+  });
+};
+
+// Refund all or part of a paid order through the provider that collected the payment
+export const issueRefund = async (orderId: string, request: RefundRequest, issuedById: string) => {
+  const order = await loadRefundableOrder(orderId);
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    throw ErrorUtil.createError('Only paid orders can be refunded', 400, 'ORDER_NOT_PAID');
+  }
+
+  const totalCents = toCents(order.total);
+  const remainingCents = totalCents - toCents(order.refundedAmount);
+  const lines = resolveRefundLines(order, request);
+
+  // A full refund returns everything still held, including any charges beyond the items
+  const cents = request.type === 'FULL'
+    ? remainingCents
+    : lines.reduce((sum, line) => sum + line.cents, 0);
+
+  if (cents <= 0) {
+    throw ErrorUtil.createError('Nothing is left to refund on this order', 400, 'NOTHING_TO_REFUND');
+  }
+
+  if (cents > remainingCents) {
+    throw ErrorUtil.createError(
+      `Refund cannot exceed the ${(remainingCents / 100).toFixed(2)} still held for this order`,
+      400,
+      'REFUND_EXCEEDS_PAID'
+    );
+  }
+
+  const provider = getPaymentProvider(order.paymentMethod);
+  const payment = await findCapturedTransaction(order.id);
+
+  // Reserve the amount first so concurrent refunds can never add up to more than was paid
+  const refund = await prisma.$transaction(async (tx) => {
+    const reserved = await tx.order.updateMany({
+      where: { id: order.id, refundedAmount: order.refundedAmount },
+      data: { refundedAmount: { increment: cents / 100 } },
+    });
+
+    if (reserved.count === 0) {
+      throw ErrorUtil.createError('Another refund for this order is in progress, please try again', 409, 'REFUND_CONFLICT');
+    }
+
+    for (const line of lines) {
+      await tx.orderItem.update({
+        where: { id: line.orderItemId },
+        data: { refundedQuantity: { increment: line.quantity } },
+      });
+    }
+
+    return tx.refund.create({
+      data: {
+        orderId: order.id,
+        amount: cents / 100,
+        reason: request.reason,
+        method: order.paymentMethod,
+        issuedById,
+        items: {
+          create: lines.map((line) => ({
+            orderItemId: line.orderItemId,
+            quantity: line.quantity,
+            amount: line.cents / 100,
+          })),
+        },
+      },
+      include: { items: true },
+    });
+  });
+
+  let reference: string | null;
+
+  try {
+    ({ reference } = await provider.refund({
+      providerPaymentId: payment?.providerPaymentId ?? null,
+      providerTransactionId: payment?.providerTransactionId ?? null,
+      amount: cents / 100,
+      orderNumber: order.orderNumber,
+      reason: request.reason,
+      reference: request.reference,
+    }));
+  } catch (error: any) {
+    // Providers answer 503 when they could not be reached; the outcome is unknown, so the refund stays
+    // pending and reserved until someone checks with the provider and resolves it
+    if (error.statusCode !== 503) {
+      await releaseRefund(refund, error.message);
+    }
+    throw error;
+  }
+
+  return completeRefund(order, refund, reference);
+};
+
+// Settle a refund left pending after the provider could not be reached, once its outcome is confirmed with the provider
+export const resolveRefund = async (
+  orderId: string,
+  refundId: string,
+  resolution: { status: 'COMPLETED' | 'FAILED'; reference?: string; reason?: string }
+) => {
+  const refund = await prisma.refund.findFirst({
+    where: { id: refundId, orderId },
+    include: { items: true },
+  });
+
+  if (!refund) {
+    throw ErrorUtil.createNotFoundError('Refund');
+  }
+
+  if (refund.status !== 'PENDING') {
+    throw ErrorUtil.createError('This refund has already been resolved', 409, 'REFUND_ALREADY_RESOLVED');
+  }
+
+  if (resolution.status === 'COMPLETED') {
+    return completeRefund(await loadRefundableOrder(orderId), refund, resolution.reference ?? null);
+  }
+
+  const released = await releaseRefund(refund, resolution.reason ?? 'Not carried out by the payment provider');
+
+  if (!released) {
+    throw ErrorUtil.createError('This refund has already been resolved', 409, 'REFUND_ALREADY_RESOLVED');
+  }
+
+  return prisma.refund.findUniqueOrThrow({
+    where: { id: refund.id },
+    include: refundInclude,
+  });
+};
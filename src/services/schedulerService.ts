@@ -0,0 +1,61 @@
+import { ScheduledJob, Scheduler } from '../types';
+
+// Runs jobs on timers inside this process; a run is skipped while the previous one is still going
+export const createIntervalScheduler = (): Scheduler => {
+  const timers = new Map<string, NodeJS.Timeout>();
+
+  return {
+    schedule(job: ScheduledJob) {
+      let running = false;
+
+      clearInterval(timers.get(job.name));
+
+      const timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+
+        try {
+          await job.run();
+        } catch (error) {
+          console.error(`Scheduled job ${job.name} failed:`, error);
+        } finally {
+          running = false;
+        }
+      }, job.intervalMs);
+
+      // Pending timers alone should not keep the process alive
+      timer.unref();
+      timers.set(job.name, timer);
+    },
+
+    stop() {
+      for (const timer of timers.values()) {
+        clearInterval(timer);
+      }
+      timers.clear();
+    },
+  };
+};
+
+// Runs jobs only when asked to, for tests and one-off scripts
+export const createManualScheduler = () => {
+  const jobs = new Map<string, ScheduledJob>();
+
+  return {
+    schedule(job: ScheduledJob) {
+      jobs.set(job.name, job);
+    },
+
+    stop() {
+      jobs.clear();
+    },
+
+    async runAll() {
+      const results: Record<string, unknown> = {};
+      for (const job of jobs.values()) {
+        results[job.name] = await job.run();
+      }
+      return results;
+    },
+  };
+};
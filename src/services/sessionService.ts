@@ -0,0 +1,170 @@
+import { Request } from 'express';
+import { PrismaClient, Prisma, UserRole, SellerRole } from '@prisma/client';
+import { JWTUtil, TokenUtil, ErrorUtil } from '../utils';
+
+const prisma = new PrismaClient();
+
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface SessionUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  sellerRole?: SellerRole | null;
+}
+
+// Device details recorded against a session
+const getClientInfo = (req: Request) => ({
+  userAgent: req.get('User-Agent')?.substring(0, 500) || null,
+  ipAddress: req.ip || null,
+});
+
+const issueTokens = (user: SessionUser, sessionId: string) => {
+  return JWTUtil.generateTokenPair({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sellerRole: user.sellerRole,
+    sessionId,
+  });
+};
+
+// Start a new session (token family) for a successful login
+export const createSession = async (user: SessionUser, req: Request) => {
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      ...getClientInfo(req),
+    },
+  });
+
+  const { accessToken, refreshToken } = issueTokens(user, session.id);
+
+  await prisma.refreshToken.create({
+    data: {
+      tokenHash: TokenUtil.hashToken(refreshToken),
+      sessionId: session.id,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  return { sessionId: session.id, accessToken, refreshToken };
+};
+
+// Exchange a refresh token for a new pair; a replayed token revokes its whole family
+export const rotateRefreshToken = async (refreshToken: string, req: Request) => {
+  try {
+    JWTUtil.verifyRefreshToken(refreshToken);
+  } catch (error) {
+    throw ErrorUtil.createUnauthorizedError('Invalid or expired refresh token');
+  }
+
+  const tokenRecord = await prisma.refreshToken.findUnique({
+    where: { tokenHash: TokenUtil.hashToken(refreshToken) },
+    include: {
+      session: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+              role: true,
+              sellerRole: true,
+              status: true,
+              emailVerified: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!tokenRecord) {
+    throw ErrorUtil.createUnauthorizedError('Invalid refresh token');
+  }
+
+  const { session } = tokenRecord;
+
+  if (tokenRecord.rotatedAt) {
+    await revokeSession(session.id);
+    throw ErrorUtil.createError('Refresh token reuse detected, session revoked', 401, 'TOKEN_REUSE_DETECTED');
+  }
+
+  if (tokenRecord.expiresAt < new Date()) {
+    await revokeSession(session.id);
+    throw ErrorUtil.createUnauthorizedError('Refresh token expired');
+  }
+
+  if (session.user.status !== 'ACTIVE') {
+    throw ErrorUtil.createUnauthorizedError('Account is suspended or banned');
+  }
+
+  const tokens = issueTokens(session.user, session.id);
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Only one request can rotate a token; the loser is treated as a replay
+      const rotated = await tx.refreshToken.updateMany({
+        where: { id: tokenRecord.id, rotatedAt: null },
+        data: { rotatedAt: new Date() },
+      });
+
+      if (rotated.count === 0) {
+        throw ErrorUtil.createError('Refresh token reuse detected, session revoked', 401, 'TOKEN_REUSE_DETECTED');
+      }
+
+      await tx.refreshToken.create({
+        data: {
+          tokenHash: TokenUtil.hashToken(tokens.refreshToken),
+          sessionId: session.id,
+          expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        },
+      });
+
+      // Rotated tokens are only kept while they could still be replayed
+      await tx.refreshToken.deleteMany({
+        where: { sessionId: session.id, expiresAt: { lt: new Date() } },
+      });
+
+      await tx.session.update({
+        where: { id: session.id },
+        data: {
+          lastUsedAt: new Date(),
+          ...getClientInfo(req),
+        },
+      });
+    });
+  } catch (error: any) {
+    if (error.code === 'TOKEN_REUSE_DETECTED') {
+      await revokeSession(session.id);
+    }
+    throw error;
+  }
+
+  return { user: session.user, sessionId: session.id, ...tokens };
+};
+
+// Find the session a refresh token belongs to
+export const findSessionIdByRefreshToken = async (refreshToken: string) => {
+  const tokenRecord = await prisma.refreshToken.findUnique({
+    where: { tokenHash: TokenUtil.hashToken(refreshToken) },
+    select: { sessionId: true },
+  });
+
+  return tokenRecord?.sessionId;
+};
+
+// Remove a session together with every refresh token in its family
+export const revokeSession = async (sessionId: string) => {
+  await prisma.session.deleteMany({
+    where: { id: sessionId },
+  });
+};
+
+// Sign a user out of every device
+export const revokeAllSessions = async (userId: string, client: Prisma.TransactionClient = prisma) => {
+  await client.session.deleteMany({
+    where: { userId },
+  });
+};
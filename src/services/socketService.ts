@@ -50,8 +50,8 @@ export const setupSocketHandlers = (io: Server) => {
           return;
         }
 
-        // Check if user owns this order (sellers can only update their own orders)
-        if (user.role === 'SELLER' && order.sellerId !== user.id) {
+        // Check if user's store owns this order (sellers can only update their store's orders)
+        if (user.role === 'SELLER' && order.storeId !== user.storeId) {
           socket.emit('error', { message: 'Unauthorized' });
           return;
         }
@@ -139,8 +139,8 @@ export const setupSocketHandlers = (io: Server) => {
           createdAt: new Date(),
         };
 
-        // Send notification to seller
-        io.to(`user_${order.sellerId}`).emit('notification', notification);
+        // Send notification to the store's team
+        io.to(`store_${order.storeId}`).emit('notification', notification);
         
         // Send to all sellers (for dashboard updates)
         io.to('sellers').emit('new-order', {
@@ -191,8 +191,8 @@ export const setupSocketHandlers = (io: Server) => {
         // Send to buyer
         io.to(`user_${order.buyerId}`).emit('notification', notification);
         
-        // Send to seller
-        io.to(`user_${order.sellerId}`).emit('payment-updated', {
+        // Send to the store's team
+        io.to(`store_${order.storeId}`).emit('payment-updated', {
           orderId: order.id,
           status: data.status,
           transactionId: data.transactionId,
@@ -250,24 +250,30 @@ export const sendNotificationToUser = (userId: string, notification: SocketNotif
   }
 };
 
-export const sendOrderUpdate = (buyerId: string, sellerId: string, orderData: any) => {
+export const sendOrderUpdate = (buyerId: string, storeId: string, orderData: any) => {
   if (global.io) {
     global.io.to(`user_${buyerId}`).emit('order-updated', orderData);
-    global.io.to(`user_${sellerId}`).emit('order-updated', orderData);
+    global.io.to(`store_${storeId}`).emit('order-updated', orderData);
   }
 };
 
-export const sendNewOrderNotification = (sellerId: string, orderData: any) => {
+export const sendNewOrderNotification = (storeId: string, orderData: any) => {
   if (global.io) {
-    global.io.to(`user_${sellerId}`).emit('new-order', orderData);
+    global.io.to(`store_${storeId}`).emit('new-order', orderData);
     global.io.to('sellers').emit('new-order', orderData);
   }
 };
 
-export const sendPaymentUpdate = (buyerId: string, sellerId: string, paymentData: any) => {
+export const sendPaymentUpdate = (buyerId: string, storeId: string, paymentData: any) => {
   if (global.io) {
     global.io.to(`user_${buyerId}`).emit('payment-updated', paymentData);
-    global.io.to(`user_${sellerId}`).emit('payment-updated', paymentData);
+    global.io.to(`store_${storeId}`).emit('payment-updated', paymentData);
+  }
+};
+
+export const disconnectUser = (userId: string) => {
+  if (global.io) {
+    global.io.in(`user_${userId}`).disconnectSockets(true);
   }
 };
 
@@ -0,0 +1,132 @@
+import { PrismaClient, Prisma, SellerRole } from '@prisma/client';
+import { StringUtil, TokenUtil, ErrorUtil } from '../utils';
+import emailService from './emailService';
+
+const prisma = new PrismaClient();
+
+// Invitation links are valid for seven days (matches the email copy)
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Build a URL slug from the store name, suffixing it when the name is taken
+export const generateStoreSlug = async (name: string, client: Prisma.TransactionClient = prisma) => {
+  const baseSlug = StringUtil.generateSlug(name) || 'store';
+  let slug = baseSlug;
+  let suffix = 1;
+
+  while (await client.store.findUnique({ where: { slug }, select: { id: true } })) {
+    suffix += 1;
+    slug = `${baseSlug}-${suffix}`;
+  }
+
+  return slug;
+};
+
+// Invite someone by email to join a store; any earlier pending invitation for the address is replaced
+export const createStoreInvitation = async (
+  store: { id: string; name: string },
+  inviter: { id: string; name: string },
+  email: string,
+  sellerRole: SellerRole
+) => {
+  const normalizedEmail = email.toLowerCase();
+  const existingMember = await prisma.user.findFirst({
+    where: {
+      email: { equals: normalizedEmail, mode: 'insensitive' },
+      storeId: store.id,
+    },
+    select: { id: true },
+  });
+
+  if (existingMember) {
+    throw ErrorUtil.createError('This user is already a member of your store', 409, 'ALREADY_STORE_MEMBER');
+  }
+
+  const invitationToken = TokenUtil.generateToken();
+
+  const invitation = await prisma.$transaction(async (tx) => {
+    await tx.storeInvitation.deleteMany({
+      where: { storeId: store.id, email: normalizedEmail, acceptedAt: null },
+    });
+
+    return tx.storeInvitation.create({
+      data: {
+        storeId: store.id,
+        email: normalizedEmail,
+        sellerRole,
+        tokenHash: TokenUtil.hashToken(invitationToken),
+        invitedById: inviter.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+      select: {
+        id: true,
+        email: true,
+        sellerRole: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+    });
+  });
+
+  await emailService.sendStoreInvitationEmail(normalizedEmail, {
+    storeName: store.name,
+    inviterName: inviter.name,
+    sellerRole,
+    invitationToken,
+  });
+
+  return invitation;
+};
+
+// Add the signed-in user to the inviting store with the invited seller role
+export const acceptStoreInvitation = async (
+  user: { id: string; email: string; role: string; storeId?: string | null },
+  token: string
+) => {
+  const invitation = await prisma.storeInvitation.findUnique({
+    where: { tokenHash: TokenUtil.hashToken(token) },
+    include: {
+      store: {
+        select: { id: true, name: true, isActive: true },
+      },
+    },
+  });
+
+  if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date() || !invitation.store.isActive) {
+    throw ErrorUtil.createError('Invalid or expired invitation', 400, 'INVALID_INVITATION');
+  }
+
+  if (invitation.email !== user.email.toLowerCase()) {
+    throw ErrorUtil.createForbiddenError('This invitation was sent to a different email address');
+  }
+
+  if (user.role === 'ADMIN') {
+    throw ErrorUtil.createForbiddenError('Admin accounts cannot join a store');
+  }
+
+  if (user.storeId) {
+    throw ErrorUtil.createError('You are already a member of a store', 409, 'ALREADY_IN_STORE');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the invitation so it cannot be used twice
+    const claimed = await tx.storeInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      throw ErrorUtil.createError('Invalid or expired invitation', 400, 'INVALID_INVITATION');
+    }
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        role: 'SELLER',
+        sellerRole: invitation.sellerRole,
+        storeId: invitation.storeId,
+      },
+    });
+
+    return invitation.store;
+  });
+};
@@ -0,0 +1,115 @@
+import { PrismaClient } from '@prisma/client';
+import { TotpUtil } from '../utils';
+import { verifySecondFactor } from './twoFactorService';
+
+jest.mock('@prisma/client', () => {
+  const actual = jest.requireActual('@prisma/client');
+
+  // One in-memory user is enough to exercise the replay guard
+  const users = new Map<string, any>();
+
+  // Only the filters the replay guard uses: equality, null and lt
+  const matchesField = (value: any, condition: any) =>
+    condition !== null && typeof condition === 'object' ? value !== null && value < condition.lt : value === condition;
+  const matches = (row: any, where: any): boolean =>
+    Object.entries(where).every(([key, condition]: [string, any]) =>
+      key === 'OR'
+        ? condition.some((branch: any) => matches(row, branch))
+        : matchesField(row[key], condition)
+    );
+
+  const client = {
+    users,
+    user: {
+      findUnique: async ({ where }: any) => users.get(where.id) ?? null,
+      updateMany: async ({ where, data }: any) => {
+        const user = users.get(where.id);
+        const accepted = user && matches(user, where);
+
+        if (!accepted) {
+          return { count: 0 };
+        }
+
+        Object.assign(user, data);
+        return { count: 1 };
+      },
+    },
+    twoFactorRecoveryCode: {
+      updateMany: async () => ({ count: 0 }),
+    },
+  };
+
+  return { ...actual, PrismaClient: jest.fn(() => client) };
+});
+
+const db = new PrismaClient() as unknown as { users: Map<string, any> };
+
+// RFC 6238 SHA-1 test secret "12345678901234567890", base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const seconds = (value: number) => value * 1000;
+
+describe('TotpUtil', () => {
+  it('generates the RFC 6238 test vectors', () => {
+    expect(TotpUtil.generateCode(RFC_SECRET, seconds(59))).toBe('287082');
+    expect(TotpUtil.generateCode(RFC_SECRET, seconds(1111111109))).toBe('081804');
+  });
+
+  it('returns the matching time step for a valid code', () => {
+    expect(TotpUtil.verifyCode(RFC_SECRET, '287082', seconds(59))).toBe(1);
+    expect(TotpUtil.verifyCode(RFC_SECRET, '081804', seconds(1111111109))).toBe(37037036);
+  });
+
+  it('accepts codes from the neighbouring steps only', () => {
+    expect(TotpUtil.verifyCode(RFC_SECRET, '287082', seconds(59 + 30))).toBe(1);
+    expect(TotpUtil.verifyCode(RFC_SECRET, '287082', seconds(59 - 30))).toBe(1);
+    expect(TotpUtil.verifyCode(RFC_SECRET, '287082', seconds(59 + 60))).toBeNull();
+    expect(TotpUtil.verifyCode(RFC_SECRET, '287082', seconds(59 + 30), 0)).toBeNull();
+  });
+
+  it('rejects wrong and malformed codes', () => {
+    expect(TotpUtil.verifyCode(RFC_SECRET, '287083', seconds(59))).toBeNull();
+    expect(TotpUtil.verifyCode(RFC_SECRET, '28708', seconds(59))).toBeNull();
+    expect(TotpUtil.verifyCode(RFC_SECRET, 'abcdef', seconds(59))).toBeNull();
+  });
+});
+
+describe('verifySecondFactor', () => {
+  const userId = 'user-1';
+  const now = seconds(1111111109);
+
+  beforeEach(() => {
+    db.users.set(userId, {
+      id: userId,
+      twoFactorEnabled: true,
+      twoFactorSecret: RFC_SECRET,
+      twoFactorLastUsedStep: null,
+    });
+  });
+
+  it('accepts a valid code once and records its time step', async () => {
+    await expect(verifySecondFactor(userId, { code: '081804' }, now)).resolves.toBe(true);
+    expect(db.users.get(userId).twoFactorLastUsedStep).toBe(37037036);
+  });
+
+  it('rejects a replayed code', async () => {
+    await expect(verifySecondFactor(userId, { code: '081804' }, now)).resolves.toBe(true);
+    await expect(verifySecondFactor(userId, { code: '081804' }, now)).resolves.toBe(false);
+  });
+
+  it('rejects an older code once a newer step was used', async () => {
+    const nextCode = TotpUtil.generateCode(RFC_SECRET, now + seconds(30));
+
+    await expect(verifySecondFactor(userId, { code: nextCode }, now)).resolves.toBe(true);
+    await expect(verifySecondFactor(userId, { code: '081804' }, now)).resolves.toBe(false);
+  });
+
+  it('rejects codes outside the window', async () => {
+    await expect(verifySecondFactor(userId, { code: '081804' }, now + seconds(90))).resolves.toBe(false);
+  });
+
+  it('rejects codes for users without two-factor authentication', async () => {
+    db.users.get(userId).twoFactorEnabled = false;
+
+    await expect(verifySecondFactor(userId, { code: '081804' }, now)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { PrismaClient, Prisma, UserRole, SellerRole } from '@prisma/client';
+import { TotpUtil, TokenUtil } from '../utils';
+
+const prisma = new PrismaClient();
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Two-factor authentication is offered to accounts that can moderate users or change order states
+export const isTwoFactorEligible = (role: UserRole, sellerRole?: SellerRole | null) => {
+  return role === UserRole.ADMIN || (role === UserRole.SELLER && sellerRole === SellerRole.MANAGER);
+};
+
+// Whether the admin policy forces this account to use two-factor authentication
+export const isTwoFactorRequired = async (role: UserRole, sellerRole?: SellerRole | null) => {
+  if (!isTwoFactorEligible(role, sellerRole)) {
+    return false;
+  }
+
+  const policy = await prisma.twoFactorPolicy.findUnique({
+    where: { role },
+  });
+
+  return policy?.required ?? false;
+};
+
+// Replace a user's recovery codes; the plaintext codes are returned once and only hashes are stored
+export const generateRecoveryCodes = async (userId: string, client: Prisma.TransactionClient = prisma) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = TokenUtil.generateToken(5);
+    return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+  });
+
+  await client.twoFactorRecoveryCode.deleteMany({
+    where: { userId },
+  });
+
+  await client.twoFactorRecoveryCode.createMany({
+    data: codes.map((code) => ({
+      userId,
+      codeHash: TokenUtil.hashToken(code),
+    })),
+  });
+
+  return codes;
+};
+
+// Check a TOTP code or a recovery code for an enrolled user, consuming it on success
+export const verifySecondFactor = async (
+  userId: string,
+  factor: { code?: string; recoveryCode?: string },
+  now: number = Date.now()
+): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorEnabled: true,
+      twoFactorSecret: true,
+      twoFactorLastUsedStep: true,
+    },
+  });
+
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  if (factor.code) {
+    const step = TotpUtil.verifyCode(user.twoFactorSecret, factor.code, now);
+    if (step === null) {
+      return false;
+    }
+
+    // Each time step is accepted once, even if two requests race
+    const accepted = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { lt: step } },
+        ],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+
+    return accepted.count > 0;
+  }
+
+  if (factor.recoveryCode) {
+    const consumed = await prisma.twoFactorRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: TokenUtil.hashToken(factor.recoveryCode.trim().toLowerCase()),
+        usedAt: null,
+      },
+      data: { usedAt: new Date(now) },
+    });
+
+    return consumed.count > 0;
+  }
+
+  return false;
+};
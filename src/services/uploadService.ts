@@ -0,0 +1,35 @@
+import { v2 as cloudinary, UploadApiResponse } from 'cloudinary';
+import { CloudinaryResponse, FileUpload } from '../types';
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+  secure: true,
+});
+
+// Upload an in-memory image to Cloudinary
+export const uploadImage = (file: FileUpload, folder: string): Promise<CloudinaryResponse> => {
+  return new Promise((resolve, reject) => {
+    const stream = cloudinary.uploader.upload_stream(
+      { folder, resource_type: 'image' },
+      (error, result?: UploadApiResponse) => {
+        if (error || !result) {
+          return reject(error || new Error('Image upload failed'));
+        }
+        resolve(result as unknown as CloudinaryResponse);
+      }
+    );
+
+    stream.end(file.buffer);
+  });
+};
+
+// Remove an asset from Cloudinary; failures are logged so callers can carry on
+export const deleteAsset = async (publicId: string) => {
+  try {
+    await cloudinary.uploader.destroy(publicId, { resource_type: 'image' });
+  } catch (error) {
+    console.error(`Failed to delete Cloudinary asset ${publicId}:`, error);
+  }
+};
@@ -1,5 +1,21 @@
 import { Request } from 'express';
-import { UserRole, SellerRole, UserStatus } from '@prisma/client';
+import { UserRole, SellerRole, UserStatus, PaymentMethod, Product, Order, OrderItem, Review } from '@prisma/client';
+
+// Permission registry; the built-in grants per role live in PermissionUtil
+export const PERMISSIONS = [
+  'product:write',
+  'product:delete',
+  'order:read',
+  'order:status:update',
+  'finance:read',
+  'finance:write',
+  'store:manage',
+  'category:write',
+  'user:read',
+  'user:manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
 
 // Extend Express Request interface
 export interface AuthenticatedRequest extends Request {
@@ -10,10 +26,24 @@ export interface AuthenticatedRequest extends Request {
     role: UserRole;
     sellerRole?: SellerRole | null;
     status: UserStatus;
+    emailVerified: boolean;
+    storeId?: string | null;
+    permissions: Permission[];
   };
+  sessionId?: string;
+  resources?: OwnedResources;
   validatedData?: any;
 }
 
+// Entities loaded and ownership-checked by requireResourceOwnership
+export interface OwnedResources {
+  product?: Product;
+  order?: Order & { items: OrderItem[] };
+  review?: Review;
+}
+
+export type OwnedModel = keyof OwnedResources;
+
 // API Response interface
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -43,7 +73,9 @@ export interface ProductFilter extends PaginationQuery {
   minPrice?: number;
   maxPrice?: number;
   sellerId?: string;
+  storeId?: string;
   inStock?: boolean;
+  rating?: number;
 }
 
 // Order filter interface
@@ -51,8 +83,10 @@ export interface OrderFilter extends PaginationQuery {
   status?: string;
   buyerId?: string;
   sellerId?: string;
+  storeId?: string;
   dateFrom?: string;
   dateTo?: string;
+  paymentMethod?: string;
 }
 
 // User filter interface
@@ -68,7 +102,8 @@ export interface JwtPayload {
   email: string;
   role: UserRole;
   sellerRole?: SellerRole | null;
-  type: 'access' | 'refresh';
+  sessionId?: string;
+  type: 'access' | 'refresh' | 'two_factor';
 }
 
 // Socket interface
@@ -78,6 +113,7 @@ export interface SocketUser {
   name: string;
   role: UserRole;
   sellerRole?: SellerRole | null;
+  storeId?: string | null;
 }
 
 // File upload interface
@@ -178,6 +214,97 @@ export interface BkashExecutePaymentResponse {
   updateTime: string;
 }
 
+export interface BkashQueryPaymentResponse {
+  statusCode: string;
+  statusMessage: string;
+  paymentID: string;
+  trxID?: string;
+  transactionStatus: string;
+  amount: string;
+  currency: string;
+  intent: string;
+  mode: string;
+  paymentCreateTime: string;
+  paymentExecuteTime?: string;
+  merchantInvoiceNumber: string;
+  payerReference?: string;
+  customerMsisdn?: string;
+}
+
+export interface BkashRefundResponse {
+  statusCode: string;
+  statusMessage: string;
+  originalTrxID: string;
+  refundTrxID: string;
+  transactionStatus: string;
+  amount: string;
+  currency: string;
+  charge: string;
+  completedTime: string;
+}
+
+// Payment provider interfaces
+// Provider-neutral state of a payment; each provider maps its own states onto it
+export type ProviderPaymentStatus = 'INITIATED' | 'AUTHORIZED' | 'CAPTURED' | 'FAILED';
+
+export interface ProviderPaymentState {
+  providerPaymentId: string;
+  status: ProviderPaymentStatus;
+  providerStatus: string;
+  providerTransactionId?: string | null;
+  completedAt?: string | null;
+}
+
+export interface PaymentInitiateRequest {
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  payerReference: string;
+  callbackURL: string;
+}
+
+export interface PaymentInitiation {
+  providerPaymentId: string | null;
+  status: ProviderPaymentStatus;
+  providerStatus: string;
+  redirectUrl: string | null; // Where the buyer approves the payment, for providers with a hosted page
+  details?: Record<string, unknown>;
+}
+
+export interface ProviderRefundRequest {
+  providerPaymentId: string | null;
+  providerTransactionId: string | null;
+  amount: number;
+  orderNumber: string;
+  reason: string;
+  reference?: string;
+}
+
+export interface PaymentProvider {
+  method: PaymentMethod;
+  slug: string; // URL segment under /api/payments
+  name: string;
+  settlesOnDelivery: boolean; // Paid at the door rather than before the order ships
+  initiate(request: PaymentInitiateRequest): Promise<PaymentInitiation>;
+  confirm(providerPaymentId: string): Promise<ProviderPaymentState>;
+  query(providerPaymentId: string): Promise<ProviderPaymentState>;
+  refund(request: ProviderRefundRequest): Promise<{ reference: string | null }>;
+  // Authenticate a callback or webhook and return the payment state the provider stands behind
+  verifyWebhook(payload: Record<string, unknown>): Promise<ProviderPaymentState>;
+}
+
+// Background job interfaces
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+export interface Scheduler {
+  schedule(job: ScheduledJob): void;
+  stop(): void;
+}
+
 // Analytics interfaces
 export interface AnalyticsData {
   totalUsers: number;
@@ -228,6 +355,8 @@ export interface CartItem {
   productId: string;
   quantity: number;
   price: number;
+  originalPrice: number;
+  lineTotal: number;
   product: {
     id: string;
     title: string;
@@ -236,6 +365,25 @@ export interface CartItem {
   };
 }
 
+// A cart belongs to a signed-in buyer or to an anonymous guest cart
+export type CartOwner = { userId: string } | { guestCartId: string };
+
+export interface CartAdjustment {
+  productId: string;
+  title: string;
+  reason: 'unavailable' | 'quantity_reduced';
+  quantity?: number;
+}
+
+export interface Cart {
+  items: CartItem[];
+  adjustments: CartAdjustment[];
+  summary: {
+    itemCount: number;
+    subtotal: number;
+  };
+}
+
 export interface ShippingAddress {
   name: string;
   phone: string;
@@ -245,6 +393,20 @@ export interface ShippingAddress {
   country: string;
 }
 
+// Category interfaces
+export interface CategoryNode {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  image: string | null;
+  isActive: boolean;
+  parentId: string | null;
+  productCount: number;
+  totalProductCount: number;
+  children: CategoryNode[];
+}
+
 // Review interfaces
 export interface ReviewData {
   rating: number;
@@ -281,4 +443,4 @@ export interface ValidationError {
   value: any;
 }
 
-export { UserRole, SellerRole, UserStatus, OrderStatus, PaymentMethod, PaymentStatus } from '@prisma/client';
\ No newline at end of file
+export { UserRole, SellerRole, UserStatus, OrderStatus, PaymentMethod, PaymentStatus, PaymentTransactionStatus } from '@prisma/client';
\ No newline at end of file
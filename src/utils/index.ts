@@ -1,6 +1,8 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import { JwtPayload, UserRole, SellerRole } from '../types';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { JwtPayload, UserRole, SellerRole, OrderStatus, PaymentTransactionStatus, Permission, PERMISSIONS } from '../types';
 
 // JWT utility functions
 export class JWTUtil {
@@ -8,12 +10,14 @@ export class JWTUtil {
   private static refreshSecret = process.env.JWT_REFRESH_SECRET || 'refresh-secret-key';
   private static accessExpiresIn = process.env.JWT_ACCESS_EXPIRES_IN || '15m';
   private static refreshExpiresIn = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+  private static challengeExpiresIn = '5m';
 
   static generateAccessToken(payload: {
     userId: string;
     email: string;
     role: UserRole;
     sellerRole?: SellerRole | null;
+    sessionId?: string;
   }): string {
     const jwtPayload: JwtPayload = {
       ...payload,
@@ -30,14 +34,17 @@ export class JWTUtil {
     email: string;
     role: UserRole;
     sellerRole?: SellerRole | null;
+    sessionId?: string;
   }): string {
     const jwtPayload: JwtPayload = {
       ...payload,
       type: 'refresh',
     };
     
+    // A unique id keeps tokens minted in the same second distinct
     return jwt.sign(jwtPayload as any, this.refreshSecret, {
       expiresIn: this.refreshExpiresIn,
+      jwtid: crypto.randomBytes(16).toString('hex'),
     } as any);
   }
 
@@ -65,11 +72,41 @@ export class JWTUtil {
     }
   }
 
+  // Short-lived token proving the password step of a two-factor login
+  static generateChallengeToken(payload: {
+    userId: string;
+    email: string;
+    role: UserRole;
+    sellerRole?: SellerRole | null;
+  }): string {
+    const jwtPayload: JwtPayload = {
+      ...payload,
+      type: 'two_factor',
+    };
+
+    return jwt.sign(jwtPayload as any, this.accessSecret, {
+      expiresIn: this.challengeExpiresIn,
+    } as any);
+  }
+
+  static verifyChallengeToken(token: string): JwtPayload {
+    try {
+      const decoded = jwt.verify(token, this.accessSecret) as JwtPayload;
+      if (decoded.type !== 'two_factor') {
+        throw new Error('Invalid token type');
+      }
+      return decoded;
+    } catch (error) {
+      throw new Error('Invalid or expired challenge token');
+    }
+  }
+
   static generateTokenPair(payload: {
     userId: string;
     email: string;
     role: UserRole;
     sellerRole?: SellerRole | null;
+    sessionId?: string;
   }) {
     return {
       accessToken: this.generateAccessToken(payload),
@@ -120,6 +157,122 @@ export class PasswordUtil {
   }
 }
 
+// Opaque token utility functions
+export class TokenUtil {
+  static generateToken(bytes: number = 32): string {
+    return crypto.randomBytes(bytes).toString('hex');
+  }
+
+  // Only the hash of single-use tokens is persisted
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+// Time-based one-time password (RFC 6238) utility functions
+export class TotpUtil {
+  private static readonly base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  private static readonly stepSeconds = 30;
+  private static readonly digits = 6;
+
+  static generateSecret(bytes: number = 20): string {
+    return this.base32Encode(crypto.randomBytes(bytes));
+  }
+
+  static getTimeStep(now: number = Date.now()): number {
+    return Math.floor(now / 1000 / this.stepSeconds);
+  }
+
+  static generateCode(secret: string, now: number = Date.now()): string {
+    return this.generateCodeForStep(secret, this.getTimeStep(now));
+  }
+
+  // Returns the matching time step so callers can reject reuse of the same code
+  static verifyCode(secret: string, code: string, now: number = Date.now(), window: number = 1): number | null {
+    if (!/^\d{6}$/.test(code)) return null;
+
+    const currentStep = this.getTimeStep(now);
+    for (let offset = -window; offset <= window; offset++) {
+      const step = currentStep + offset;
+      if (step < 0) continue;
+
+      const expected = this.generateCodeForStep(secret, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  static getProvisioningUri(secret: string, accountName: string, issuer: string = 'Lagbe Kichu'): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(this.digits),
+      period: String(this.stepSeconds),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private static generateCodeForStep(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** this.digits).padStart(this.digits, '0');
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += this.base32Alphabet[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += this.base32Alphabet[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+      const index = this.base32Alphabet.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 secret');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
+
 // Response utility functions
 export class ResponseUtil {
   static success<T>(message: string, data?: T, meta?: any) {
@@ -254,6 +407,12 @@ export class StringUtil {
     return `ORD-${timestamp.toUpperCase()}-${randomStr.toUpperCase()}`;
   }
 
+  static generateCheckoutNumber(): string {
+    const timestamp = Date.now().toString(36);
+    const randomStr = Math.random().toString(36).substring(2, 8);
+    return `CHK-${timestamp.toUpperCase()}-${randomStr.toUpperCase()}`;
+  }
+
   static generateSKU(title: string, category: string): string {
     const titlePart = title.slice(0, 3).toUpperCase();
     const categoryPart = category.slice(0, 2).toUpperCase();
@@ -279,6 +438,54 @@ export class StringUtil {
   }
 }
 
+// Price utility functions
+export class PriceUtil {
+  // Read on every calculation, since .env is loaded after this module is imported
+  private static getSettings() {
+    return {
+      shippingCost: parseFloat(process.env.SHIPPING_COST || '60'),
+      freeShippingThreshold: parseFloat(process.env.FREE_SHIPPING_THRESHOLD || '0'),
+      taxRate: parseFloat(process.env.TAX_RATE || '0'),
+    };
+  }
+
+  static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  // Discount price applies only while the discount has not expired
+  static getEffectivePrice(product: {
+    price: Prisma.Decimal | number;
+    discountPrice?: Prisma.Decimal | number | null;
+    discountEndDate?: Date | null;
+  }): number {
+    if (product.discountPrice === null || product.discountPrice === undefined) {
+      return Number(product.price);
+    }
+
+    if (product.discountEndDate && DateUtil.isDateExpired(product.discountEndDate)) {
+      return Number(product.price);
+    }
+
+    return Number(product.discountPrice);
+  }
+
+  static calculateOrderTotals(subtotal: number) {
+    const settings = this.getSettings();
+    const shippingCost = settings.freeShippingThreshold > 0 && subtotal >= settings.freeShippingThreshold
+      ? 0
+      : settings.shippingCost;
+    const tax = this.round(subtotal * settings.taxRate / 100);
+
+    return {
+      subtotal: this.round(subtotal),
+      shippingCost,
+      tax,
+      total: this.round(subtotal + shippingCost + tax),
+    };
+  }
+}
+
 // File utility functions
 export class FileUtil {
   static getFileExtension(filename: string): string {
@@ -319,39 +526,124 @@ export class FileUtil {
 
 // Permission utility functions
 export class PermissionUtil {
-  static canManageProducts(role: UserRole, sellerRole?: SellerRole | null): boolean {
-    if (role === UserRole.ADMIN) return true;
-    if (role === UserRole.SELLER) {
-      return sellerRole === SellerRole.MANAGER || sellerRole === SellerRole.INVENTORY_STAFF;
+  // Built-in grants for each role; sellers add the grants of their store role
+  private static rolePermissions: Record<UserRole, Permission[]> = {
+    [UserRole.ADMIN]: [...PERMISSIONS],
+    [UserRole.SELLER]: ['order:read'],
+    [UserRole.BUYER]: ['order:read'],
+  };
+
+  private static sellerRolePermissions: Record<SellerRole, Permission[]> = {
+    [SellerRole.MANAGER]: [
+      'product:write',
+      'product:delete',
+      'order:status:update',
+      'finance:read',
+      'finance:write',
+      'store:manage',
+    ],
+    [SellerRole.ACCOUNTANT]: ['finance:read', 'finance:write'],
+    [SellerRole.INVENTORY_STAFF]: ['product:write', 'product:delete'],
+  };
+
+  static isPermission(value: string): value is Permission {
+    return (PERMISSIONS as readonly string[]).includes(value);
+  }
+
+  // Effective permissions: role defaults plus anything granted by an admin-defined custom role
+  static resolvePermissions(
+    role: UserRole,
+    sellerRole?: SellerRole | null,
+    customPermissions: string[] = []
+  ): Permission[] {
+    const granted = new Set<Permission>(this.rolePermissions[role]);
+
+    if (role === UserRole.SELLER && sellerRole) {
+      this.sellerRolePermissions[sellerRole].forEach((permission) => granted.add(permission));
     }
-    return false;
+
+    customPermissions.filter((permission) => this.isPermission(permission))
+      .forEach((permission) => granted.add(permission as Permission));
+
+    return PERMISSIONS.filter((permission) => granted.has(permission));
   }
 
-  static canViewOrders(role: UserRole, sellerRole?: SellerRole | null): boolean {
-    if (role === UserRole.ADMIN) return true;
-    if (role === UserRole.SELLER) return true;
-    if (role === UserRole.BUYER) return true;
-    return false;
+  static hasPermission(permissions: Permission[], ...required: Permission[]): boolean {
+    return required.every((permission) => permissions.includes(permission));
   }
+}
 
-  static canManageOrders(role: UserRole, sellerRole?: SellerRole | null): boolean {
-    if (role === UserRole.ADMIN) return true;
-    if (role === UserRole.SELLER) {
-      return sellerRole === SellerRole.MANAGER;
-    }
-    return false;
+// Order status utility functions
+export class OrderStatusUtil {
+  // Allowed transitions and the roles that may perform each of them
+  private static transitions: Record<OrderStatus, Partial<Record<OrderStatus, UserRole[]>>> = {
+    [OrderStatus.PENDING_APPROVAL]: {
+      [OrderStatus.PROCESSING]: [UserRole.ADMIN, UserRole.SELLER],
+      [OrderStatus.REJECTED]: [UserRole.ADMIN, UserRole.SELLER],
+      [OrderStatus.CANCELLED]: [UserRole.ADMIN, UserRole.BUYER],
+    },
+    [OrderStatus.PROCESSING]: {
+      [OrderStatus.OUT_FOR_DELIVERY]: [UserRole.ADMIN, UserRole.SELLER],
+      [OrderStatus.CANCELLED]: [UserRole.ADMIN, UserRole.SELLER],
+    },
+    [OrderStatus.OUT_FOR_DELIVERY]: {
+      [OrderStatus.COMPLETED]: [UserRole.ADMIN, UserRole.SELLER],
+      [OrderStatus.CANCELLED]: [UserRole.ADMIN],
+    },
+    [OrderStatus.COMPLETED]: {},
+    [OrderStatus.CANCELLED]: {},
+    [OrderStatus.REJECTED]: {},
+  };
+
+  static isValidTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return to in this.transitions[from];
   }
 
-  static canViewFinancials(role: UserRole, sellerRole?: SellerRole | null): boolean {
-    if (role === UserRole.ADMIN) return true;
-    if (role === UserRole.SELLER) {
-      return sellerRole === SellerRole.MANAGER || sellerRole === SellerRole.ACCOUNTANT;
-    }
-    return false;
+  static canTransition(from: OrderStatus, to: OrderStatus, role: UserRole): boolean {
+    return this.transitions[from][to]?.includes(role) ?? false;
+  }
+
+  static getAllowedTransitions(from: OrderStatus, role: UserRole): OrderStatus[] {
+    return (Object.keys(this.transitions[from]) as OrderStatus[])
+      .filter((to) => this.canTransition(from, to, role));
+  }
+
+  static isFinal(status: OrderStatus): boolean {
+    return Object.keys(this.transitions[status]).length === 0;
+  }
+
+  // Cancelled and rejected orders give their reserved stock back
+  static releasesStock(status: OrderStatus): boolean {
+    return status === OrderStatus.CANCELLED || status === OrderStatus.REJECTED;
+  }
+}
+
+export class PaymentTransactionUtil {
+  // Payment transactions only ever move forward, so replayed or late provider reports cannot undo a later state
+  private static transitions: Record<PaymentTransactionStatus, PaymentTransactionStatus[]> = {
+    [PaymentTransactionStatus.INITIATED]: [
+      PaymentTransactionStatus.AUTHORIZED,
+      PaymentTransactionStatus.CAPTURED,
+      PaymentTransactionStatus.FAILED,
+    ],
+    [PaymentTransactionStatus.AUTHORIZED]: [PaymentTransactionStatus.CAPTURED, PaymentTransactionStatus.FAILED],
+    [PaymentTransactionStatus.CAPTURED]: [PaymentTransactionStatus.REFUNDED],
+    [PaymentTransactionStatus.FAILED]: [],
+    [PaymentTransactionStatus.REFUNDED]: [],
+  };
+
+  static canAdvance(from: PaymentTransactionStatus, to: PaymentTransactionStatus): boolean {
+    return this.transitions[from].includes(to);
+  }
+
+  // States a transaction may be in for it to move to the given one
+  static getStatusesBefore(to: PaymentTransactionStatus): PaymentTransactionStatus[] {
+    return (Object.keys(this.transitions) as PaymentTransactionStatus[])
+      .filter((from) => this.canAdvance(from, to));
   }
 
-  static canManageUsers(role: UserRole): boolean {
-    return role === UserRole.ADMIN;
+  static isFinal(status: PaymentTransactionStatus): boolean {
+    return this.transitions[status].length === 0;
   }
 }
 
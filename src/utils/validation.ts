@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { UserRole, SellerRole, OrderStatus, PaymentMethod } from '../types';
+import { UserRole, SellerRole, OrderStatus, PaymentMethod, PaymentTransactionStatus, PERMISSIONS } from '../types';
 
 // Base validation schemas
 export const emailSchema = z.string()
@@ -36,20 +36,19 @@ export const registerSchema = z.object({
   name: nameSchema,
   phone: phoneSchema.optional(),
   role: z.nativeEnum(UserRole).default(UserRole.BUYER),
-  sellerRole: z.nativeEnum(SellerRole).optional(),
   businessName: z.string().min(1, 'Business name is required').optional(),
   businessPhone: phoneSchema.optional(),
   businessAddress: z.string().min(1, 'Business address is required').optional(),
 }).refine(
   (data: any) => {
     if (data.role === UserRole.SELLER) {
-      return data.sellerRole && data.businessName && data.businessPhone && data.businessAddress;
+      return data.businessName && data.businessPhone && data.businessAddress;
     }
     return true;
   },
   {
-    message: 'Seller role, business name, phone, and address are required for seller registration',
-    path: ['sellerRole'],
+    message: 'Business name, phone, and address are required for seller registration',
+    path: ['businessName'],
   }
 );
 
@@ -74,6 +73,62 @@ export const changePasswordSchema = z.object({
   }
 );
 
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  newPassword: passwordSchema,
+  confirmPassword: z.string().min(1, 'Password confirmation is required'),
+}).refine(
+  (data: any) => data.newPassword === data.confirmPassword,
+  {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  }
+);
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+// Two-factor authentication schemas
+const totpCodeSchema = z.string().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: totpCodeSchema.optional(),
+  recoveryCode: z.string().min(1).optional(),
+}).refine(
+  (data: any) => data.code || data.recoveryCode,
+  {
+    message: 'Either an authenticator code or a recovery code is required',
+    path: ['code'],
+  }
+);
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: totpCodeSchema.optional(),
+  recoveryCode: z.string().min(1).optional(),
+}).refine(
+  (data: any) => data.code || data.recoveryCode,
+  {
+    message: 'Either an authenticator code or a recovery code is required',
+    path: ['code'],
+  }
+);
+
+export const twoFactorPolicySchema = z.object({
+  role: z.enum([UserRole.ADMIN, UserRole.SELLER]),
+  required: z.boolean(),
+});
+
 // User schemas
 export const updateProfileSchema = z.object({
   name: nameSchema.optional(),
@@ -81,7 +136,6 @@ export const updateProfileSchema = z.object({
   businessName: z.string().min(1).optional(),
   businessPhone: phoneSchema.optional(),
   businessAddress: z.string().min(1).optional(),
-  avatar: z.string().url().optional(),
 });
 
 export const userFilterSchema = paginationSchema.extend({
@@ -95,16 +149,54 @@ export const updateUserStatusSchema = z.object({
   reason: z.string().optional(),
 });
 
+// Custom role schemas
+export const customRoleSchema = z.object({
+  name: z.string().min(1, 'Role name is required').max(50, 'Role name too long'),
+  description: z.string().max(500, 'Description too long').optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).min(1, 'At least one permission is required'),
+});
+
+export const updateCustomRoleSchema = customRoleSchema.partial();
+
+export const assignCustomRoleSchema = z.object({
+  customRoleId: z.string().min(1).nullable(),
+});
+
+// Store schemas
+export const updateStoreSchema = z.object({
+  name: z.string().min(1, 'Store name is required').max(100, 'Store name too long').optional(),
+  phone: phoneSchema.optional(),
+  address: z.string().min(1, 'Store address is required').optional(),
+});
+
+export const storeInvitationSchema = z.object({
+  email: emailSchema,
+  sellerRole: z.nativeEnum(SellerRole),
+});
+
+export const acceptStoreInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+});
+
+export const updateStoreMemberSchema = z.object({
+  sellerRole: z.nativeEnum(SellerRole),
+});
+
 // Category schemas
 export const createCategorySchema = z.object({
   name: z.string().min(1, 'Category name is required').max(50, 'Name must be less than 50 characters'),
   description: z.string().max(500, 'Description must be less than 500 characters').optional(),
   image: z.string().url('Invalid image URL').optional(),
   isActive: z.boolean().default(true),
+  parentId: z.string().cuid('Invalid parent category ID').nullable().optional(),
 });
 
 export const updateCategorySchema = createCategorySchema.partial();
 
+export const categoryFilterSchema = z.object({
+  includeInactive: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
+
 // Product schemas
 export const createProductSchema = z.object({
   title: z.string().min(1, 'Product title is required').max(200, 'Title must be less than 200 characters'),
@@ -113,10 +205,12 @@ export const createProductSchema = z.object({
   discountPrice: z.coerce.number().positive().max(9999999.99).optional(),
   discountEndDate: z.coerce.date().min(new Date(), 'Discount end date must be in the future').optional(),
   stock: z.coerce.number().int().min(0, 'Stock cannot be negative').max(999999, 'Stock too high'),
-  categoryId: z.string().uuid('Invalid category ID'),
+  categoryId: z.string().cuid('Invalid category ID'),
   images: z.array(z.string().url()).min(1, 'At least one image is required').max(10, 'Maximum 10 images allowed'),
   video: z.string().url('Invalid video URL').optional(),
   isActive: z.boolean().default(true),
+  // Admins name the store they list for; sellers always list under their own
+  storeId: z.string().min(1).optional(),
 }).refine(
   (data: any) => {
     if (data.discountPrice && data.price) {
@@ -131,27 +225,39 @@ export const createProductSchema = z.object({
 );
 
 export const updateProductSchema = z.object({
-  title: z.string().min(1).optional(),
-  description: z.string().min(10).optional(),
-  price: z.number().positive().optional(),
-  discountPrice: z.number().positive().optional(),
-  discountEndDate: z.string().datetime().optional(),
-  quantity: z.number().int().min(0).optional(),
-  categoryId: z.string().uuid().optional(),
-  images: z.array(z.string().url()).optional(),
-  videos: z.array(z.string().url()).optional(),
-  tags: z.array(z.string()).optional(),
+  title: z.string().min(1, 'Product title is required').max(200, 'Title must be less than 200 characters').optional(),
+  description: z.string().min(1, 'Product description is required').max(2000, 'Description must be less than 2000 characters').optional(),
+  price: z.coerce.number().positive('Price must be positive').max(9999999.99, 'Price too high').optional(),
+  discountPrice: z.coerce.number().positive().max(9999999.99).nullable().optional(),
+  discountEndDate: z.coerce.date().min(new Date(), 'Discount end date must be in the future').nullable().optional(),
+  stock: z.coerce.number().int().min(0, 'Stock cannot be negative').max(999999, 'Stock too high').optional(),
+  categoryId: z.string().cuid('Invalid category ID').optional(),
+  images: z.array(z.string().url()).min(1, 'At least one image is required').max(10, 'Maximum 10 images allowed').optional(),
+  video: z.string().url('Invalid video URL').nullable().optional(),
   isActive: z.boolean().optional(),
-});
+}).refine(
+  (data: any) => {
+    if (data.discountPrice && data.price) {
+      return data.discountPrice < data.price;
+    }
+    return true;
+  },
+  {
+    message: 'Discount price must be less than regular price',
+    path: ['discountPrice'],
+  }
+);
 
 export const productFilterSchema = paginationSchema.extend({
   category: z.string().optional(),
   search: z.string().optional(),
   minPrice: z.coerce.number().positive().optional(),
   maxPrice: z.coerce.number().positive().optional(),
-  sellerId: z.string().uuid().optional(),
+  sellerId: z.string().cuid().optional(),
+  storeId: z.string().min(1).optional(),
   inStock: z.coerce.boolean().optional(),
   isActive: z.coerce.boolean().optional(),
+  rating: z.coerce.number().min(1).max(5).optional(),
 });
 
 // Order schemas
@@ -165,7 +271,7 @@ export const shippingAddressSchema = z.object({
 });
 
 export const orderItemSchema = z.object({
-  productId: z.string().uuid('Invalid product ID'),
+  productId: z.string().cuid('Invalid product ID'),
   quantity: z.coerce.number().int().min(1, 'Quantity must be at least 1').max(999, 'Quantity too high'),
 });
 
@@ -177,15 +283,27 @@ export const createOrderSchema = z.object({
   notes: z.string().max(1000, 'Notes too long').optional(),
 });
 
+export const checkoutSchema = createOrderSchema.omit({ items: true });
+
+// Cash handed over by the courier when a cash-on-delivery order is delivered
+export const codCollectionSchema = z.object({
+  courierName: z.string().min(1, 'Courier name is required').max(100, 'Courier name too long'),
+  amount: z.coerce.number().positive('Amount must be positive'),
+  reference: z.string().max(100, 'Reference too long').optional(),
+  collectedAt: z.coerce.date().optional(),
+});
+
 export const updateOrderStatusSchema = z.object({
   status: z.nativeEnum(OrderStatus),
   notes: z.string().max(1000, 'Notes too long').optional(),
+  codCollection: codCollectionSchema.optional(),
 });
 
 export const orderFilterSchema = paginationSchema.extend({
   status: z.nativeEnum(OrderStatus).optional(),
-  buyerId: z.string().uuid().optional(),
-  sellerId: z.string().uuid().optional(),
+  buyerId: z.string().cuid().optional(),
+  sellerId: z.string().cuid().optional(),
+  storeId: z.string().min(1).optional(),
   dateFrom: z.coerce.date().optional(),
   dateTo: z.coerce.date().optional(),
   paymentMethod: z.nativeEnum(PaymentMethod).optional(),
@@ -193,7 +311,7 @@ export const orderFilterSchema = paginationSchema.extend({
 
 // Cart schemas
 export const addToCartSchema = z.object({
-  productId: z.string().uuid('Invalid product ID'),
+  productId: z.string().cuid('Invalid product ID'),
   quantity: z.coerce.number().int().min(1, 'Quantity must be at least 1').max(999, 'Quantity too high'),
 });
 
@@ -203,15 +321,19 @@ export const updateCartItemSchema = z.object({
 
 // Review schemas
 export const createReviewSchema = z.object({
+  productId: z.string().cuid('Invalid product ID'),
   rating: z.coerce.number().int().min(1, 'Rating must be at least 1').max(5, 'Rating cannot exceed 5'),
   comment: z.string().max(1000, 'Comment too long').optional(),
   images: z.array(z.string().url()).max(5, 'Maximum 5 images allowed').optional(),
 });
 
+export const updateReviewSchema = createReviewSchema.omit({ productId: true }).partial();
+
 export const reviewFilterSchema = paginationSchema.extend({
   rating: z.coerce.number().int().min(1).max(5).optional(),
-  productId: z.string().uuid().optional(),
-  userId: z.string().uuid().optional(),
+  productId: z.string().cuid().optional(),
+  userId: z.string().cuid().optional(),
+  verifiedOnly: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
 });
 
 // File upload schemas
@@ -221,21 +343,88 @@ export const fileUploadSchema = z.object({
 });
 
 // Payment schemas
-export const bkashPaymentSchema = z.object({
-  orderId: z.string().uuid('Invalid order ID'),
-  amount: z.coerce.number().positive('Amount must be positive'),
-});
+// The amount is always the order or checkout total, so clients only name what they are paying for
+export const createPaymentSchema = z.object({
+  provider: z.string().min(1, 'Payment provider is required'),
+  orderId: z.string().min(1, 'Order ID is required').optional(),
+  checkoutId: z.string().min(1, 'Checkout ID is required').optional(),
+}).refine(
+  (data) => !!data.orderId !== !!data.checkoutId,
+  { message: 'Pay for either an order or a checkout', path: ['orderId'] }
+);
 
 export const bkashCallbackSchema = z.object({
   paymentID: z.string().min(1, 'Payment ID is required'),
-  status: z.string().min(1, 'Status is required'),
+  status: z.enum(['success', 'failure', 'cancel']),
+});
+
+export const paymentIdSchema = z.object({
+  provider: z.string().min(1, 'Payment provider is required'),
+  paymentID: z.string().min(1, 'Payment ID is required'),
+});
+
+export const paymentTransactionFilterSchema = paginationSchema.extend({
+  storeId: z.string().optional(),
+  orderId: z.string().optional(),
+  provider: z.nativeEnum(PaymentMethod).optional(),
+  status: z.nativeEnum(PaymentTransactionStatus).optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
+});
+
+export const codCollectionFilterSchema = paginationSchema.extend({
+  storeId: z.string().optional(),
+  courierName: z.string().optional(),
+  remitted: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
 });
 
+export const codRemittanceSchema = z.object({
+  collectionIds: z.array(z.string().min(1)).min(1, 'At least one collection is required').max(500, 'Too many collections'),
+  remittanceReference: z.string().min(1, 'Remittance reference is required').max(100, 'Reference too long'),
+  remittedAt: z.coerce.date().optional(),
+});
+
+export const codReconciliationSchema = z.object({
+  dateFrom: z.coerce.date(),
+  dateTo: z.coerce.date(),
+  storeId: z.string().optional(),
+  courierName: z.string().optional(),
+}).refine(
+  (data) => data.dateTo >= data.dateFrom,
+  { message: 'End date must be after start date', path: ['dateTo'] }
+);
+
+// Refund schemas
+export const createRefundSchema = z.object({
+  type: z.enum(['FULL', 'PARTIAL']),
+  items: z.array(z.object({
+    orderItemId: z.string().min(1, 'Order item ID is required'),
+    quantity: z.coerce.number().int().positive('Quantity must be positive'),
+  })).min(1, 'At least one item is required').max(100, 'Too many items').optional(),
+  reason: z.string().min(1, 'Reason is required').max(500, 'Reason too long'),
+  reference: z.string().max(100, 'Reference too long').optional(),
+}).refine(
+  (data) => (data.type === 'PARTIAL') === !!data.items,
+  { message: 'Partial refunds need items and full refunds take none', path: ['items'] }
+);
+
+// Outcome of a pending refund, as confirmed with the payment provider
+export const resolveRefundSchema = z.object({
+  status: z.enum(['COMPLETED', 'FAILED']),
+  reference: z.string().min(1).max(100, 'Reference too long').optional(),
+  reason: z.string().min(1).max(500, 'Reason too long').optional(),
+}).refine(
+  (data) => data.status === 'FAILED' || !!data.reference,
+  { message: "The provider's refund reference is required to complete a refund", path: ['reference'] }
+);
+
 // Analytics schemas
 export const analyticsFilterSchema = z.object({
   dateFrom: z.coerce.date().optional(),
   dateTo: z.coerce.date().optional(),
-  sellerId: z.string().uuid().optional(),
+  sellerId: z.string().cuid().optional(),
 });
 
 // Notification schemas